@@ -1,9 +1,15 @@
 import assert from "assert";
-import { validParseInt } from "./xtil.ts";
+import { prefixOption, validParseInt } from "./xtil.ts";
 import { OptionMatch } from "./options.ts";
+import { CompleteFunc } from "./completion.ts";
+import { CommandNode } from "./command-node.ts";
+import { OptionValue } from "./command-meta.ts";
 
 const SUPPORT_TYPES = ["number", "string", "float", "boolean", "int", "integer"];
 
+/** Types of arguments with numeric values */
+export const NUMBER_TYPES = ["number", "float", "int", "integer"];
+
 export const rootCommandName = "~root-command~";
 
 export const isRootCommand = (name: string) => name === rootCommandName;
@@ -12,15 +18,137 @@ export type BaseArgTypes = string | number | boolean;
 
 export type CustomTypeFunc = (value: string) => any;
 
+/**
+ * Context passed to the `validate` callbacks of options and commands
+ */
+export type ValidateContext = {
+  /** name of the option or command */
+  name: string;
+  /** the command node, or for an option, the command node that has it */
+  command: CommandNode;
+  /** values of the options visible to the command, including those of its parents */
+  opts: Record<string, OptionValue>;
+};
+
+/**
+ * Result of a `validate` callback: `false` or an error message to reject the value,
+ * anything else to accept it.
+ */
+export type ValidateResult = boolean | string | void;
+
+/**
+ * Callback to validate the value of an option or the arguments of a command.
+ *
+ * It can also reject the value by throwing an error, or return a promise for async validation,
+ * which requires `parseAsync`.
+ */
+export type ValidateFunc<T> = (
+  value: T,
+  ctx: ValidateContext
+) => ValidateResult | Promise<ValidateResult>;
+
+/**
+ * Deprecation of an option, command or alias
+ */
+export type Deprecation = {
+  /** message to show when it's used, instead of the default one */
+  message?: string;
+  /**
+   * name of the option or command to use instead.  A deprecated option is parsed as its
+   * replacement, so the value is only under the replacement's name.
+   */
+  replacement?: string;
+};
+
+/**
+ * Information about a deprecated option, command or alias that user used, passed to the
+ * `deprecated` event
+ */
+export type DeprecationNotice = {
+  /** `option` or `command` */
+  type: string;
+  /** name of the option or command */
+  name: string;
+  /** the deprecated alias user entered, if only the alias is deprecated */
+  alias?: string;
+  /** name to use instead */
+  replacement?: string;
+  /** the warning message */
+  message: string;
+};
+
+/**
+ * Codes of the errors from parsing the command line.  They are stable, so tools can check
+ * the code of an error instead of its message.
+ */
+export type NixClapErrorCode =
+  | "INVALID_ARG_SPECIFIER"
+  | "MISSING_ARG"
+  | "MISSING_COMMAND"
+  | "MISSING_REQUIRED_OPTION"
+  | "MISSING_DEPENDENCY"
+  | "UNKNOWN_OPTION"
+  | "UNKNOWN_COMMAND"
+  | "UNKNOWN_ARG"
+  | "AMBIGUOUS_MATCH"
+  | "INVALID_VALUE"
+  | "INVALID_CUSTOM_TYPE"
+  | "DUPLICATE_KEY"
+  | "CONFLICT"
+  | "VALIDATION_FAILED"
+  | "RESPONSE_FILE"
+  | "CONFIG_FILE";
+
+/**
+ * Where an error is from.  After parsing, `cmdPath` and `option` are filled from the node the
+ * error is in.
+ */
+export type NixClapErrorInfo = {
+  /**
+   * names of the commands from the root to the command that has the option, or that was being
+   * parsed, ie: `["db", "migrate"]`
+   */
+  cmdPath?: string[];
+  /** name of the option of the error */
+  option?: string;
+  /**
+   * index in `argv` of the arg that caused the error, or for a missing argument, of the option
+   * or command that's missing it.  For args from a response file, it's the index of the
+   * `@file` arg in `argv` before it's expanded.
+   */
+  argIndex?: number;
+  /** the original error, ie: thrown by a custom type function */
+  cause?: unknown;
+};
+
+/**
+ * Base class of the errors from parsing the command line
+ */
+export class NixClapError extends Error {
+  code: NixClapErrorCode;
+  cmdPath?: string[];
+  option?: string;
+  argIndex?: number;
+  cause?: unknown;
+  constructor(msg: string, code: NixClapErrorCode, info: NixClapErrorInfo = {}) {
+    super(msg);
+    this.code = code;
+    this.cmdPath = info.cmdPath;
+    this.option = info.option;
+    this.argIndex = info.argIndex;
+    this.cause = info.cause;
+  }
+}
+
 /**
  * Error thrown when an invalid argument specifier is encountered.
  *
- * @extends {Error}
+ * @extends {NixClapError}
  */
-export class InvalidArgSpecifierError extends Error {
+export class InvalidArgSpecifierError extends NixClapError {
   arg: string;
   constructor(msg: string, arg = "") {
-    super(msg);
+    super(msg, "INVALID_ARG_SPECIFIER");
     this.arg = arg;
   }
 }
@@ -28,22 +156,67 @@ export class InvalidArgSpecifierError extends Error {
 /**
  * User provided an option that's unknown
  */
-export class UnknownOptionError extends Error {
+export class UnknownOptionError extends NixClapError {
   data: OptionMatch;
-  constructor(msg: string, data: OptionMatch) {
-    super(msg);
+  /**
+   * Names of known options that are close to the unknown one, best match first
+   */
+  suggestions: string[];
+  constructor(msg: string, data: OptionMatch, suggestions: string[] = []) {
+    super(msg, "UNKNOWN_OPTION", { option: data.name });
     this.data = data;
+    this.suggestions = suggestions;
   }
 }
 
 /**
  * User provided an cli argument that's unknown
  */
-export class UnknownCliArgError extends Error {
+export class UnknownCliArgError extends NixClapError {
   arg: string;
-  constructor(msg: string, arg: string) {
-    super(msg);
+  /**
+   * Names of known commands that are close to the unknown argument, best match first
+   */
+  suggestions: string[];
+  constructor(
+    msg: string,
+    arg: string,
+    suggestions: string[] = [],
+    code: NixClapErrorCode = "UNKNOWN_COMMAND"
+  ) {
+    super(msg, code);
     this.arg = arg;
+    this.suggestions = suggestions;
+  }
+}
+
+/**
+ * User provided an abbreviation that's the prefix of more than one option or command
+ */
+export class AmbiguousMatchError extends NixClapError {
+  arg: string;
+  /**
+   * Names of all the options or commands that the abbreviation matches
+   */
+  candidates: string[];
+  constructor(msg: string, arg: string, candidates: string[]) {
+    super(msg, "AMBIGUOUS_MATCH");
+    this.arg = arg;
+    this.candidates = candidates;
+  }
+}
+
+/**
+ * User didn't specify some required options
+ */
+export class MissingRequiredOptionError extends NixClapError {
+  /**
+   * Names of all the missing options.  `option` is the first one.
+   */
+  options: string[];
+  constructor(msg: string, options: string[]) {
+    super(msg, "MISSING_REQUIRED_OPTION", { option: options[0] });
+    this.options = options;
   }
 }
 
@@ -59,7 +232,7 @@ export type BaseSpec = {
    * Aliases for the option or command.
    * Can be a single string or an array of strings.
    */
-  alias?: string | string[];
+  alias?: string | readonly string[];
 
   /**
    * Description of the option or command.
@@ -82,6 +255,7 @@ export type BaseSpec = {
    *   - The default type is `string` and can be omitted, e.g., `"<name>"`. A blank space omits name,
    *     e.g., `"< string>"`. Both can be omitted, e.g., `<>`.
    *   - Examples: `"<arg string>"`, `"[arg number]"`, or `"<arg1 boolean> <arg2 string>"`.
+   * - Choices: list the valid values after the type with `:`, separated by `|`, e.g., `"<mode string:dev|prod>"`.
    * - Array arguments: specify with `..N` or `..`
    *   - Fixed size array: `"<arg string..3>"` or `"<..3>"` means 3 arguments are required.
    *   - Variadic size array: `"<..>"` for 0 to many; `"<..1,>"` or `"<..1,Inf>"` for 1 to many, indicating at least 1 is required.
@@ -98,7 +272,7 @@ export type BaseSpec = {
    *
    * The `source` will be `"default"`.
    */
-  argDefault?: string | string[] | null;
+  argDefault?: string | readonly string[] | null;
 
   /**
    * Specifies handlers for custom types.
@@ -116,6 +290,57 @@ export type BaseSpec = {
    * ```
    */
   customTypes?: Record<string, CustomTypeFunc | RegExp | string>;
+
+  /**
+   * Provides completion candidates for the arguments of the option or command, ie: branch names.
+   *
+   * - A function: called for any of the arguments.
+   * - An object: functions keyed by argument name (or index, for arguments without name).
+   *
+   * The function can return the candidates or a promise that resolves to them.
+   *
+   * Example:
+   * ```js
+   * {
+   *   args: "<branch>",
+   *   complete: ctx => listBranches()
+   * }
+   * ```
+   */
+  complete?: CompleteFunc | Record<string, CompleteFunc>;
+
+  /**
+   * Minimum value for the numeric arguments
+   */
+  min?: number;
+
+  /**
+   * Maximum value for the numeric arguments
+   */
+  max?: number;
+
+  /**
+   * Set to `true` to only allow integers for the numeric arguments
+   */
+  integer?: boolean;
+
+  /**
+   * Set to `true` to leave the option or command out of help, completion and generated docs.
+   * It's still parsed normally.
+   */
+  hidden?: boolean;
+
+  /**
+   * Mark the option or command as deprecated, with a message, or a `Deprecation` that can name
+   * its replacement.  Using it emits a `deprecated` event, which outputs a warning by default.
+   */
+  deprecated?: string | Deprecation;
+
+  /**
+   * Mark some of the aliases as deprecated, ie: `{ o: "-o is going away, use --output" }`.
+   * Deprecated aliases are left out of help.
+   */
+  deprecatedAliases?: Record<string, string | Deprecation>;
 };
 
 export type ArgInfo = {
@@ -125,6 +350,8 @@ export type ArgInfo = {
   required: boolean;
   min: number;
   max: number;
+  /** valid values for the argument, if it's limited to a set */
+  choices?: string[];
 };
 
 /**
@@ -183,6 +410,96 @@ export class CliBase<TSpec extends BaseSpec> {
     return !!this.variadic;
   }
 
+  /** Indicates whether this command or option is left out of help, completion and docs */
+  get hidden(): boolean {
+    return !!this.spec.hidden;
+  }
+
+  /**
+   * Get the deprecation of the option or command itself
+   */
+  get deprecation(): Deprecation | undefined {
+    const dep = this.spec.deprecated;
+    return typeof dep === "string" ? { message: dep } : dep;
+  }
+
+  /**
+   * Check if the option or command, or the alias user entered for it, is deprecated.
+   *
+   * @param alias - the name or alias user entered
+   * @returns the notice for the `deprecated` event, or `undefined` if neither is deprecated
+   */
+  getDeprecation(alias: string = this.name): DeprecationNotice | undefined {
+    const isOption = this.cliType === "option";
+    const show = (name: string) => (isOption ? prefixOption(name) : `'${name}'`);
+    const kind = isOption ? "Option" : "Command";
+
+    const dep = this.deprecation;
+    if (dep) {
+      const use = dep.replacement ? `, use ${show(dep.replacement)} instead` : "";
+      return {
+        type: this.cliType,
+        name: this.name,
+        replacement: dep.replacement,
+        message: dep.message || `${kind} ${show(this.name)} is deprecated${use}.`
+      };
+    }
+
+    const aliasDep = this.spec.deprecatedAliases?.[alias];
+    if (aliasDep) {
+      const info: Deprecation = typeof aliasDep === "string" ? { message: aliasDep } : aliasDep;
+      const { message, replacement = this.name } = info;
+      return {
+        type: this.cliType,
+        name: this.name,
+        alias,
+        replacement,
+        message:
+          message || `${kind} alias ${show(alias)} is deprecated, use ${show(replacement)} instead.`
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the valid values of all the arguments that are limited to a set
+   *
+   * @returns the valid values, empty if none of the arguments has choices
+   */
+  get choices(): string[] {
+    return [...new Set(this.args.flatMap(a => a.choices || []))];
+  }
+
+  /**
+   * Make the help text tags for the constraints on the argument values,
+   * ie: `[choices: "dev", "prod"]` or `[min: 1]`
+   *
+   * @returns the tags
+   */
+  makeConstraintsHelp(): string[] {
+    const tags: string[] = [];
+    const choices = this.choices;
+    if (choices.length > 0) {
+      tags.push(`[choices: ${choices.map(c => JSON.stringify(c)).join(", ")}]`);
+    }
+
+    if (this.args.some(a => NUMBER_TYPES.includes(a.type))) {
+      const { min, max, integer } = this.spec;
+      if (integer) {
+        tags.push("[integer]");
+      }
+      if (min !== undefined) {
+        tags.push(`[min: ${min}]`);
+      }
+      if (max !== undefined) {
+        tags.push(`[max: ${max}]`);
+      }
+    }
+
+    return tags;
+  }
+
   /**
    * Processes the argument specification string and populates the args array.
    * @throws {InvalidArgSpecifierError} If the argument specification is invalid
@@ -206,7 +523,10 @@ export class CliBase<TSpec extends BaseSpec> {
       // "[string foo..1,3]"
 
       //   xname = xname.trim();
-      const xm = xname.match(/([^\. ]+)?( +)?([^\.]+)?(\.\.+)?([^\.,]*)?( *, *)?([^\.]+)?$/);
+      // "a:x|y" <-- choices without a type are string, same as "a string:x|y"
+      const xm = xname
+        .replace(/^([^\. :]+):/, "$1 :")
+        .match(/([^\. ]+)?( +)?([^\.]+)?(\.\.+)?([^\.,]*)?( *, *)?([^\.]+)?$/);
       assert(
         xm,
         new InvalidArgSpecifierError(`Invalid args specifier '${xname}' for '${this.name}'.`)
@@ -216,7 +536,9 @@ export class CliBase<TSpec extends BaseSpec> {
       let min = 1;
       let max = 1;
       const name = xm[1]; // "a b..1,3" <-- "a"
-      const type = xm[3] || "string"; // "a b..1,3" <-- "b"
+      const typeChoices = (xm[3] || "").split(":"); // "a b:x|y" <-- "b", "x|y"
+      const type = typeChoices[0] || "string"; // "a b..1,3" <-- "b"
+      const choices = typeChoices[1]?.split("|");
       assert(
         SUPPORT_TYPES.indexOf(type) >= 0 ||
           (
@@ -280,7 +602,8 @@ export class CliBase<TSpec extends BaseSpec> {
         type,
         variadic,
         min,
-        max
+        max,
+        choices
       });
       return "";
     });
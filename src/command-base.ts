@@ -1,8 +1,11 @@
-import { BaseSpec, CliBase, isRootCommand } from "./base.ts";
+import { AmbiguousMatchError, BaseSpec, CliBase, isRootCommand, ValidateFunc } from "./base.ts";
+import { ArgumentValue, OptionValue } from "./command-meta.ts";
 import { CommandNode } from "./command-node.ts";
 import { NixClapConfig, ParseResult } from "./nix-clap.ts";
+import { OptionBase } from "./option-base.ts";
 import { GroupOptionSpec, Options } from "./options.ts";
-import { cbOrVal, dup, fitLines, getTerminalWidth, resetZebraIndex, nextZebraIndex } from "./xtil.ts";
+import { HelpCommandEntry, renderCommandsHelp } from "./help-model.ts";
+import { cbOrVal, dup } from "./xtil.ts";
 
 /**
  * The execution function you provide for a command.
@@ -14,9 +17,18 @@ import { cbOrVal, dup, fitLines, getTerminalWidth, resetZebraIndex, nextZebraInd
  * @param parsed - The parsed result containing remaining args after -- (optional)
  *
  * The command chain (sequence from root to this command) is accessible via `cmd.cmdChain`
+ *
+ * @template O - type of `cmd.opts`, see `defineCommand` to infer it from the options spec
+ * @template A - type of `cmd.args`, see `defineCommand` to infer it from the args specifier
  */
-export type CommandExecFunc = (cmd: CommandNode, parsed?: ParseResult) => void;
-export type CommandExecAsyncFunc = (cmd: CommandNode, parsed?: ParseResult) => Promise<void>;
+export type CommandExecFunc<
+  O extends Record<string, any> = Record<string, OptionValue>,
+  A extends Record<string, any> = Record<string, ArgumentValue>
+> = (cmd: CommandNode<O, A>, parsed?: ParseResult<O, A>) => void;
+export type CommandExecAsyncFunc<
+  O extends Record<string, any> = Record<string, OptionValue>,
+  A extends Record<string, any> = Record<string, ArgumentValue>
+> = (cmd: CommandNode<O, A>, parsed?: ParseResult<O, A>) => Promise<void>;
 
 /**
  * Represents the specification for a command.
@@ -49,6 +61,50 @@ export type CommandSpec = BaseSpec & {
    * Allow unknown options
    */
   allowUnknownOption?: boolean;
+  /**
+   * Groups of options that are mutually exclusive, ie: `[{ options: ["file", "url", "stdin"], required: true }]`
+   */
+  exclusiveGroups?: readonly ExclusiveGroup[];
+  /**
+   * Validate the arguments of the command, after they are coerced and defaults are applied.
+   *
+   * Return `false` or an error message, or throw an error, to reject them.  The error is
+   * added to the command node.  It's only called if the command is invoked.
+   */
+  validate?: ValidateFunc<Record<string, any>>;
+  /**
+   * Examples of using the command.  `$0` in `cmd` is replaced with the program name.
+   */
+  examples?: readonly CommandExample[];
+  /**
+   * Text to show at the end of the command's help, after the examples.
+   * Can be a string or a function that returns a string.  `$0` is replaced with the program name.
+   */
+  epilog?: string | (() => string);
+};
+
+/**
+ * An example of using a command
+ */
+export type CommandExample = {
+  /** the command line, ie: `"$0 build --minify"` */
+  cmd: string;
+  /** description of the example */
+  desc?: string;
+};
+
+/**
+ * A group of options that can't be specified together in the command line
+ */
+export type ExclusiveGroup = {
+  /**
+   * Names of the options in the group.  They can be options of the command or its parents.
+   */
+  options: readonly string[];
+  /**
+   * Set to `true` to require exactly one of the options to be specified
+   */
+  required?: boolean;
 };
 
 /**
@@ -151,7 +207,7 @@ export class CommandBase extends CliBase<CommandSpec> {
    * @param name - The name of the command to which the aliases will be assigned.
    * @throws {Error} Throws an error if an alias is already used by another command.
    */
-  setCommandAliases(alias: string[], name: string) {
+  setCommandAliases(alias: readonly string[], name: string) {
     alias.forEach(a => {
       if (this.subAliases[a]) {
         throw new Error(`Command ${name} alias ${a} already used by command ${this.subAliases[a]}`);
@@ -222,6 +278,14 @@ export class CommandBase extends CliBase<CommandSpec> {
     return cbOrVal(this.cmdSpec.usage);
   }
 
+  get examples(): readonly CommandExample[] {
+    return this.cmdSpec.examples || [];
+  }
+
+  get epilog() {
+    return cbOrVal(this.cmdSpec.epilog);
+  }
+
   get exec() {
     return this.cmdSpec.exec;
   }
@@ -243,10 +307,12 @@ export class CommandBase extends CliBase<CommandSpec> {
    * Matches a sub-command based on the provided alias.
    *
    * @param alias - The alias of the sub-command to match.
+   * @param abbreviate - Also match the alias as a unique prefix.  Default to the `allowAbbreviation` config.
    * @returns An object containing the matched command's name, alias, and the command itself.
    *
    * @remarks
-   * If the alias does not directly match a sub-command, it will attempt to match using sub-aliases.
+   * If the alias does not directly match a sub-command, it will attempt to match using sub-aliases,
+   * and then as an abbreviation if enabled.
    * If no match is found, the alias is returned as the name with an undefined command.
    *
    * @example
@@ -257,12 +323,12 @@ export class CommandBase extends CliBase<CommandSpec> {
    * console.log(result.cmd); // Command object or undefined
    * ```
    */
-  matchSubCommand(alias: string): CommandMatched {
+  matchSubCommand(alias: string, abbreviate = this.ncConfig?.allowAbbreviation): CommandMatched {
     let cmd = this.subCmdsBase[alias];
     let name = alias;
 
     if (!cmd) {
-      name = this.subAliases[alias];
+      name = this.subAliases[alias] || (abbreviate && this.matchAbbreviation(alias));
       if (name) {
         cmd = this.subCmdsBase[name];
       } else {
@@ -277,6 +343,83 @@ export class CommandBase extends CliBase<CommandSpec> {
     };
   }
 
+  /**
+   * Find the sub command that an abbreviation is the unique prefix of its name or one of its aliases.
+   * Hidden sub commands only match exactly, not by abbreviation.
+   *
+   * @param abbr - the abbreviation
+   * @returns name of the sub command, or `undefined` if no sub command matches
+   * @throws AmbiguousMatchError if more than one sub command matches
+   */
+  matchAbbreviation(abbr: string): string | undefined {
+    const names = Object.keys(this.subCmdsBase)
+      .concat(Object.keys(this.subAliases))
+      .filter(n => n.startsWith(abbr))
+      .map(n => this.subAliases[n] || n)
+      .filter(n => !this.subCmdsBase[n].hidden);
+    const candidates = [...new Set(names)];
+    if (candidates.length > 1) {
+      throw new AmbiguousMatchError(
+        `Ambiguous command '${abbr}' matches: ${candidates.join(", ")}`,
+        abbr,
+        candidates
+      );
+    }
+    return candidates[0];
+  }
+
+  /**
+   * Get the names and aliases of the sub commands that are not hidden, for suggesting close
+   * matches of unknown commands.
+   */
+  get subCommandNames(): string[] {
+    return Object.keys(this.subCmdsBase)
+      .concat(Object.keys(this.subAliases))
+      .filter(n => !this.subCmdsBase[this.subAliases[n] || n].hidden);
+  }
+
+  /**
+   * Get the names and aliases of the options that can be used with this command and are not
+   * hidden, including the ones from parent commands, for suggesting close matches of unknown
+   * options.
+   */
+  get optionNames(): string[] {
+    const names: string[] = [];
+    for (let cmd: CommandBase = this; cmd; cmd = cmd.parent) {
+      const { _options, _optAlias } = cmd.options;
+      names.push(
+        ...Object.keys(_options).filter(n => !_options[n].hidden),
+        ...Object.keys(_optAlias).filter(n => !_options[_optAlias[n]].hidden)
+      );
+    }
+    return names;
+  }
+
+  /**
+   * Get the options of the parent commands that can be used with this command, and are not
+   * shadowed by its own options or the options of closer parents.
+   */
+  get globalOptions(): OptionBase[] {
+    const names = new Set(Object.keys(this.options._options));
+    const options: OptionBase[] = [];
+    for (let cmd = this.parent; cmd; cmd = cmd.parent) {
+      for (const [name, opt] of Object.entries(cmd.options._options)) {
+        if (!names.has(name)) {
+          names.add(name);
+          options.push(opt);
+        }
+      }
+    }
+    return options;
+  }
+
+  /**
+   * Get the sub commands that are not hidden
+   */
+  get visibleSubCmds(): Record<string, CommandBase> {
+    return Object.fromEntries(Object.entries(this.subCmdsBase).filter(([, cmd]) => !cmd.hidden));
+  }
+
   /**
    * Get the number of commands, including sub commands, that has exec
    *
@@ -291,12 +434,13 @@ export class CommandBase extends CliBase<CommandSpec> {
   }
 
   /**
-   * Generates a help message for the command and its subcommands.
+   * Makes the help model entries of the sub commands.
    *
-   * @param progName - Optional name of the program to be included in the help message.
-   * @returns An array of strings representing the formatted help message.
+   * @param progName - Optional name of the program to be included in the usage of the entries.
+   * @param showHidden - Also include the hidden sub commands.
+   * @returns The entries of the sub commands.
    */
-  makeHelp(progName?: string) {
+  makeHelpEntries(progName?: string, showHidden = false): HelpCommandEntry[] {
     if (progName) {
       progName = `${progName} `;
     } else if (!isRootCommand(this.alias[0])) {
@@ -306,25 +450,29 @@ export class CommandBase extends CliBase<CommandSpec> {
       progName = "";
     }
 
-    const data: string[][] = [];
-
-    for (const [name, cmdBase] of Object.entries(this.subCmdsBase)) {
-      let args = cmdBase.verbatimArgs;
-      args = args ? ` ${args}` : "";
-      const strs = [`${progName}${name}${args}`, cmdBase.desc ? ` ${cmdBase.desc.trim()}` : ""];
-      const alias = cmdBase.alias.join(" ");
-      strs.push(alias.length > 0 ? `[aliases: ${alias}]` : "");
-      data.push(strs);
-    }
-
-    const cmdWidth = data.reduce((max, n) => (n[0].length > max ? n[0].length : max), 0);
+    const subCmds = showHidden ? this.subCmdsBase : this.visibleSubCmds;
+    return Object.entries(subCmds).map(([name, cmdBase]) => {
+      const args = cmdBase.verbatimArgs;
+      return {
+        name,
+        usage: `${progName}${name}${args ? ` ${args}` : ""}`,
+        desc: cmdBase.desc ? cmdBase.desc.trim() : undefined,
+        aliases: cmdBase.alias.filter(x => x && !cmdBase.spec.deprecatedAliases?.[x]),
+        tags: cmdBase.makeConstraintsHelp(),
+        deprecated: cmdBase.deprecation && cmdBase.getDeprecation().message
+      };
+    });
+  }
 
-    resetZebraIndex();
-    return data.reduce((help, strs) => {
-      const lines = fitLines(strs, "  ", "    ", cmdWidth, getTerminalWidth());
-      nextZebraIndex();
-      return help.concat(lines);
-    }, [] as string[]);
+  /**
+   * Generates a help message for the command and its subcommands.
+   *
+   * @param progName - Optional name of the program to be included in the help message.
+   * @param showHidden - Also show the hidden sub commands.
+   * @returns An array of strings representing the formatted help message.
+   */
+  makeHelp(progName?: string, showHidden = false) {
+    return renderCommandsHelp(this.makeHelpEntries(progName, showHidden));
   }
 }
 
@@ -11,17 +11,21 @@ export type ArgumentValue = string | number | boolean | string[] | number[] | bo
 /**
  * Source tracking for where option/argument values came from
  */
-export type OptionSource = "cli" | "cli-default" | "cli-unmatch" | "default" | "user";
+export type OptionSource =
+  "cli" | "cli-default" | "cli-unmatch" | "env" | "implied" | "default" | "user";
 
 /**
  * Represents JSON metadata for a command.
+ *
+ * @template O - type of the options, inferred from the options spec for typed specs
+ * @template A - type of the arguments, inferred from the args specifier for typed specs
  */
-export type CommandMeta = {
+export type CommandMeta<O = Record<string, OptionValue>, A = Record<string, ArgumentValue>> = {
   /**
    * Options associated with the command.
    * Keys are option names, values are the parsed option values.
    */
-  opts: Record<string, OptionValue>;
+  opts: O;
 
   /**
    * Count of each option used (for counting options).
@@ -57,7 +61,7 @@ export type CommandMeta = {
    * Formally specified and recognized arguments passed to the command.
    * Keys are argument names from the args spec, values are parsed values.
    */
-  args: Record<string, ArgumentValue>;
+  args: A;
 
   /**
    * List of all arguments passed to the command, even unknown ones.
@@ -71,8 +75,9 @@ export type CommandMeta = {
 
   /**
    * Verbatim (original string) values for options before type coercion.
+   * For `multiple` options, the CLI args of each occurrence, ie: `[["--tag", "a"], ["--tag=b"]]`.
    */
-  verbatim: Record<string, string | string[]>;
+  verbatim: Record<string, string | string[] | string[][]>;
 
   /**
    * Sub-commands associated with this command.
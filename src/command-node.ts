@@ -1,18 +1,37 @@
 import { ClapNode } from "./clap-node.ts";
-import { CommandBase } from "./command-base.ts";
-import { CommandMeta } from "./command-meta.ts";
+import { CommandBase, CommandSpec } from "./command-base.ts";
+import { ArgumentValue, CommandMeta, OptionValue } from "./command-meta.ts";
+import { OptionBase, OptionSpec } from "./option-base.ts";
 import { OptionNode } from "./option-node.ts";
 import { ClapNodeGenerator, OptionSource } from "./node-generator.ts";
-import { camelCase } from "./xtil.ts";
+import { camelCase, prefixOption } from "./xtil.ts";
 import { _PARENT } from "./symbols.ts";
-import { isRootCommand } from "./base.ts";
+import { DeprecationNotice, isRootCommand, NixClapError, ValidateResult } from "./base.ts";
 import { ParseResult } from "./nix-clap.ts";
 
+/**
+ * Get the args of each occurrence of an option from its value in a config.  An array for a
+ * multiple option, or an object for a map option, is an occurrence for each element or entry.
+ *
+ * @param option - the option
+ * @param value - the value in the config
+ * @returns args of the occurrences
+ */
+function configOccurrences(option: OptionBase, value: any): any[] {
+  if (option.isMap && value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.entries(value).map(([k, v]) => `${k}${option.mapSpec.separator}${v}`);
+  }
+  return option.isMultiple && Array.isArray(value) ? value : [value];
+}
+
 /**
  * Object representation for an instance of a command on the CLI
  */
 
-export class CommandNode extends ClapNode {
+export class CommandNode<
+  O extends Record<string, any> = Record<string, OptionValue>,
+  A extends Record<string, any> = Record<string, ArgumentValue>
+> extends ClapNode {
   /**
    * sub command nodes
    */
@@ -26,12 +45,17 @@ export class CommandNode extends ClapNode {
    */
   optNodes: Record<string, OptionNode>;
   optCount: Record<string, number>;
+  /**
+   * Deprecated options and aliases that user entered for this command, in the order they were
+   * matched
+   */
+  deprecations: DeprecationNotice[];
   /**
    * Command consumes all remaining arguments blindly
    */
   isGreedy: boolean;
 
-  _jsonMeta?: CommandMeta;
+  _jsonMeta?: CommandMeta<O, A>;
 
   constructor(name: string, alias: string, cmdBase?: CommandBase) {
     super(name, alias);
@@ -40,6 +64,7 @@ export class CommandNode extends ClapNode {
     this.subCmdNodes = {};
     this.optNodes = {};
     this.optCount = {};
+    this.deprecations = [];
     this.isGreedy = false;
   }
 
@@ -49,12 +74,12 @@ export class CommandNode extends ClapNode {
   }
 
   /** get the options for this command */
-  get opts() {
+  get opts(): O {
     return this.jsonMeta.opts;
   }
 
   /** get the arguments for this command */
-  get args() {
+  get args(): A {
     return this.jsonMeta.args;
   }
 
@@ -127,6 +152,14 @@ export class CommandNode extends ClapNode {
     return nodes.reverse().concat(this);
   }
 
+  /**
+   * Get the names of the commands from the root command, not including it, to this command
+   * @returns Array of command names, empty for the root command
+   */
+  get cmdPath(): string[] {
+    return this.cmdChain.slice(1).map(cmd => cmd.name);
+  }
+
   /**
    * Invoke the command's exec handler
    *
@@ -186,9 +219,10 @@ export class CommandNode extends ClapNode {
     }
 
     for (const _key in this.optNodes) {
-      const _optNode = this.optNodes[_key];
-      if (_optNode.hasErrors) {
-        errorNodes.push(_optNode);
+      for (const _optNode of this.optNodes[_key].occurrences) {
+        if (_optNode.hasErrors) {
+          errorNodes.push(_optNode);
+        }
       }
     }
 
@@ -199,6 +233,28 @@ export class CommandNode extends ClapNode {
     return errorNodes;
   }
 
+  /**
+   * Get the deprecated commands, options and aliases that user entered, in this command and its
+   * sub commands.
+   *
+   * @param notices - Array to accumulate the notices
+   * @returns the notices for the `deprecated` event
+   */
+  getDeprecations(notices: DeprecationNotice[] = []): DeprecationNotice[] {
+    const deprecation = !isRootCommand(this.alias) && this.cmdBase.getDeprecation(this.alias);
+    if (deprecation) {
+      notices.push(deprecation);
+    }
+
+    notices.push(...this.deprecations);
+
+    for (const _key in this.subCmdNodes) {
+      this.subCmdNodes[_key].getDeprecations(notices);
+    }
+
+    return notices;
+  }
+
   /**
    * Add a option to this node
    * @param name
@@ -208,6 +264,10 @@ export class CommandNode extends ClapNode {
     node[_PARENT] = this;
     const name = node.option.name || node.name;
 
+    const prevNode = this.optNodes[name];
+    if (prevNode && node.option.isMultiple) {
+      node.previous = prevNode.occurrences;
+    }
     this.optNodes[name] = node;
     if (!this.optCount[name]) {
       this.optCount[name] = 0;
@@ -247,36 +307,91 @@ export class CommandNode extends ClapNode {
   }
 
   /**
-   * Allow you to apply extra config to the parsed object, overriding any `opts` with `source` not start with `cli`.
+   * For any option that was not specified in command line, fill it from the environment
+   * variable it's bound to, if it's set.  Errors about the value tell the variable it came from.
+   *
+   * @param env - the environment variables
+   */
+  applyEnv(env: Record<string, string | undefined> = process.env): void {
+    const options = this.cmdBase.options._options;
+    const prefix = this.cmdBase.ncConfig?.envPrefix;
+
+    for (const optName in options) {
+      const opt = options[optName];
+      const envName = opt.envName(prefix);
+      const value = envName && env[envName];
+      const optNode = this.optNodes[optName];
+      if (value !== undefined && (!optNode || optNode.source === "default")) {
+        this.removeOptionNode(optName);
+        const args = opt.expectArgs > 1 ? value.split(",").map(x => x.trim()) : [value];
+        const envNode = new ClapNodeGenerator(this).addOptionWithArgs(optName, args, opt, "env");
+        for (const err of envNode.errors) {
+          err.message += ` (from env ${envName})`;
+        }
+      }
+    }
+
+    for (const subCmdName in this.subCmdNodes) {
+      this.subCmdNodes[subCmdName].applyEnv(env);
+    }
+  }
+
+  /**
+   * Allow you to apply extra config to the parsed object, overriding any `opts` with `source` not start with `cli`
+   * or from `env` or `implied`.
    *
    * For example, you can allow user to specify options in their `package.json` file, and apply those after the command line is parsed.
+   *
+   * A key that's the name or alias of a sub command with an object value is applied to that sub command,
+   * if it was invoked, ie: `{ build: { minify: true } }`.
+   *
    * @param config - Config object containing user options config
    * @param src - Name of the source that provided the config.  Default to `user`
+   * @param file - Path of the file the config was loaded from, saved as `sourceFile` of the option nodes
    * @returns
    */
-  applyConfig(config: Record<string, any>, src: OptionSource = "user") {
+  applyConfig(config: Record<string, any>, src: OptionSource = "user", file?: string) {
     for (const key in config) {
+      const value = config[key];
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        const subCmd = this.cmdBase.matchSubCommand(key, false);
+        if (subCmd.cmd) {
+          this.subCmdNodes[subCmd.name]?.applyConfig(value, src, file);
+          continue;
+        }
+      }
+
       const data = {
         name: key,
-        value: config[key],
-        verbatim: config[key],
-        arg: config[key],
+        value,
+        verbatim: value,
+        arg: value,
         dashes: 0
       };
       const matchOpt = this.cmdBase.options.match(data);
       if (matchOpt) {
         const optNode = this.optNodes[matchOpt.name];
-        if (!optNode || !optNode.source.startsWith("cli")) {
+        if (
+          !optNode ||
+          !(optNode.source.startsWith("cli") || ["env", "implied"].includes(optNode.source))
+        ) {
           this.removeOptionNode(matchOpt.name);
-          new ClapNodeGenerator(this).addOptionWithArgs(
-            matchOpt.name,
-            [].concat(data.arg),
-            matchOpt.option,
-            src
-          );
+          for (const arg of configOccurrences(matchOpt.option, value)) {
+            new ClapNodeGenerator(this).addOptionWithArgs(
+              matchOpt.name,
+              [].concat(arg),
+              matchOpt.option,
+              src
+            ).sourceFile = file;
+          }
         }
       } else if (!this.optNodes[key]) {
-        new ClapNodeGenerator(this).addOptionWithArgs(key, [].concat(data.arg), undefined, src);
+        new ClapNodeGenerator(this).addOptionWithArgs(
+          key,
+          [].concat(data.arg),
+          undefined,
+          src
+        ).sourceFile = file;
       }
     }
   }
@@ -321,53 +436,350 @@ export class CommandNode extends ClapNode {
     return missing;
   }
 
-  get jsonMeta(): CommandMeta {
-    if (this._jsonMeta) {
-      return this._jsonMeta;
+  /**
+   * Find the node of an option that's visible to this command, from this command or its parents.
+   *
+   * @param name - name of the option
+   * @returns the option node, or `undefined` if the option was not specified
+   */
+  findOptionNode(name: string): OptionNode | undefined {
+    for (let node: CommandNode = this; node; node = node.getParent()) {
+      if (node.optNodes[name]) {
+        return node.optNodes[name];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check the `conflicts` of options and the `exclusiveGroups` of commands, and add errors
+   * to the command nodes.  A conflict between an option of a command and an option of its
+   * parents is an error of the command, no matter which one declared it.
+   *
+   * Only options specified in the command line count as conflicting, so defaults, env, or config
+   * don't cause false conflicts, but they do fulfill a required exclusive group.  It must be
+   * called after defaults are applied.
+   */
+  checkExclusiveOptions() {
+    const fromCli = (name: string) => this.findOptionNode(name)?.source.startsWith("cli");
+    const reported = new Set<string>();
+    const pairs: [string, string][] = [];
+
+    for (const name in this.optNodes) {
+      if (fromCli(name)) {
+        for (const other of this.optNodes[name].option.spec.conflicts || []) {
+          pairs.push([name, other]);
+        }
+        // conflicts declared by options of the parents with this option
+        for (let parent = this.getParent(); parent; parent = parent.getParent()) {
+          for (const pName in parent.optNodes) {
+            if (parent.optNodes[pName].option.spec.conflicts?.includes(name)) {
+              pairs.push([pName, name]);
+            }
+          }
+        }
+      }
+    }
+
+    for (const [name, other] of pairs) {
+      const key = [name, other].sort().join(" ");
+      if (fromCli(name) && fromCli(other) && !reported.has(key)) {
+        reported.add(key);
+        this.addError(
+          new NixClapError(
+            `Option ${prefixOption(name)} can't be used with ${prefixOption(other)}`,
+            "CONFLICT",
+            { option: name }
+          )
+        );
+      }
+    }
+
+    for (const group of this.cmdBase.cmdSpec.exclusiveGroups || []) {
+      const flags = group.options.map(prefixOption).join(", ");
+      const specified = group.options.filter(fromCli);
+      if (specified.length > 1) {
+        this.addError(
+          new NixClapError(
+            `Only one of ${flags} can be specified, but got ${specified.map(prefixOption).join(", ")}`,
+            "CONFLICT",
+            { option: specified[0] }
+          )
+        );
+      } else if (group.required && !group.options.some(x => this.findOptionNode(x))) {
+        this.addError(
+          new NixClapError(`One of ${flags} is required`, "MISSING_REQUIRED_OPTION", {
+            option: group.options[0]
+          })
+        );
+      }
+    }
+
+    for (const kCmd in this.subCmdNodes) {
+      this.subCmdNodes[kCmd].checkExclusiveOptions();
+    }
+  }
+
+  /**
+   * Find the command node, from this command or its parents, that owns an option, and the option.
+   *
+   * @param name - name of the option
+   * @returns the command node and the option, or `undefined` if no command has the option
+   */
+  findOptionOwner(name: string): { node: CommandNode; option: OptionBase } | undefined {
+    for (let node: CommandNode = this; node; node = node.getParent()) {
+      const option = node.cmdBase.options._options[name];
+      if (option) {
+        return { node, option };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply the values that options specified by user imply for other options, with source `implied`.
+   *
+   * Implied values never override values from command line or env.
+   */
+  applyImplies() {
+    const pending: [CommandNode, string][] = Object.keys(this.optNodes).map(name => [this, name]);
+    const applied: [CommandNode, string][] = [];
+    const isApplied = (node: CommandNode, name: string) =>
+      applied.some(([n, k]) => n === node && k === name);
+
+    while (pending.length > 0) {
+      const [node, name] = pending.shift();
+      const implies = node.optNodes[name].option.spec.implies;
+      applied.push([node, name]);
+      for (const key in implies) {
+        const owner = node.findOptionOwner(key);
+        const optNode = owner?.node.optNodes[key];
+        if (!owner || optNode?.source.startsWith("cli") || optNode?.source === "env") {
+          continue;
+        }
+        owner.node.removeOptionNode(key);
+        new ClapNodeGenerator(owner.node).addOptionWithArgs(
+          key,
+          [].concat(implies[key]).map(String),
+          owner.option,
+          "implied"
+        );
+        if (!isApplied(owner.node, key)) {
+          pending.push([owner.node, key]);
+        }
+      }
+    }
+
+    for (const kCmd in this.subCmdNodes) {
+      this.subCmdNodes[kCmd].applyImplies();
+    }
+  }
+
+  /**
+   * Get the values of the options that are visible to this command, including the ones from
+   * its parents.
+   *
+   * @returns option values
+   */
+  visibleOpts(): Record<string, OptionValue> {
+    const parent = this.getParent();
+    return { ...parent?.visibleOpts(), ...this._makeOpts().opts };
+  }
+
+  /**
+   * Check the `requires` and `requiredIf` of options, after defaults are applied, and add errors
+   * to the command nodes that declared them.
+   *
+   * Options with values from defaults don't require other options, and don't fulfill the
+   * requirement of other options.
+   */
+  checkOptionDependencies() {
+    const specified = (name: string) => {
+      const optNode = this.findOptionNode(name);
+      return optNode && optNode.source !== "default";
+    };
+
+    const options = this.cmdBase.options._options;
+    for (const name in options) {
+      const { requires, requiredIf } = options[name].spec;
+      const optNode = this.optNodes[name];
+      if (optNode && optNode.source !== "default") {
+        for (const other of [].concat(requires || [])) {
+          if (!specified(other)) {
+            this.addError(
+              new NixClapError(
+                `Option ${prefixOption(name)} requires ${prefixOption(other)}`,
+                "MISSING_DEPENDENCY",
+                { option: name }
+              )
+            );
+          }
+        }
+      } else if (typeof requiredIf === "function") {
+        if (requiredIf(this.visibleOpts(), this)) {
+          this.addError(
+            new NixClapError(
+              `Option ${prefixOption(name)} is required`,
+              "MISSING_REQUIRED_OPTION",
+              { option: name }
+            )
+          );
+        }
+      } else if (requiredIf) {
+        const [other, value] = requiredIf.split("=");
+        const opts = this.visibleOpts();
+        if (value === undefined ? specified(other) : String(opts[other]) === value) {
+          this.addError(
+            new NixClapError(
+              `Option ${prefixOption(name)} is required when ${prefixOption(requiredIf)}`,
+              "MISSING_REQUIRED_OPTION",
+              { option: name }
+            )
+          );
+        }
+      }
     }
 
+    for (const kCmd in this.subCmdNodes) {
+      this.subCmdNodes[kCmd].checkOptionDependencies();
+    }
+  }
+
+  /**
+   * Run the `validate` callbacks of the options of this command, the command itself, and its
+   * sub commands.  Rejections are added as errors to the option or command nodes.
+   *
+   * @param pending - if provided, promises of async validators are added to it, else they are
+   *   reported as errors since they can't be awaited.
+   */
+  runValidators(pending?: Promise<void>[]) {
+    const validate = (node: ClapNode, what: string, spec: OptionSpec | CommandSpec, value: any) => {
+      const report = (result: ValidateResult) => {
+        if (result === false) {
+          node.addError(new NixClapError(`Invalid value for ${what}`, "VALIDATION_FAILED"));
+        } else if (typeof result === "string") {
+          node.addError(new NixClapError(result, "VALIDATION_FAILED"));
+        }
+      };
+      const fail = (err: Error) => {
+        node.addError(new NixClapError(err.message, "VALIDATION_FAILED", { cause: err }));
+      };
+
+      try {
+        const result = spec.validate(value, { name: node.name, command: this, opts });
+        if (result instanceof Promise) {
+          if (pending) {
+            pending.push(result.then(report, fail));
+          } else {
+            result.catch(() => undefined);
+            node.addError(
+              new NixClapError(
+                `Async validator of ${what} requires parseAsync`,
+                "VALIDATION_FAILED"
+              )
+            );
+          }
+        } else {
+          report(result);
+        }
+      } catch (err) {
+        fail(err);
+      }
+    };
+
+    const opts = this.visibleOpts();
+    const { opts: ownOpts } = this._makeOpts();
+    const options = this.cmdBase.options._options;
+    for (const name in options) {
+      const optNode = this.optNodes[name];
+      if (options[name].spec.validate && optNode && optNode.errors.length === 0) {
+        validate(optNode, `option '${name}'`, options[name].spec, ownOpts[name]);
+      }
+    }
+
+    if (this.cmdBase.spec.validate && this.errors.length === 0) {
+      validate(this, `command '${this.name}'`, this.cmdBase.spec, this.argsMap);
+    }
+
+    for (const kCmd in this.subCmdNodes) {
+      this.subCmdNodes[kCmd].runValidators(pending);
+    }
+  }
+
+  /**
+   * Make the option values of this command
+   *
+   * @returns option values, full values, verbatim values, and their sources
+   */
+  private _makeOpts() {
     const opts = {};
     const optsFull = {};
+    const verbatim = {};
 
     const source = {};
     for (const name in this.optNodes) {
       const variants = [name];
       const node = this.optNodes[name];
 
-      if (node.alias && name !== node.alias) {
+      // a deprecated option remapped to its replacement shouldn't show up under its old name
+      const remapped = node.deprecation?.replacement && !node.deprecation.alias;
+      if (node.alias && name !== node.alias && !remapped) {
         variants.push(node.alias);
       }
-      for (const _name of variants) {
+      const valueOf = (occurrence: OptionNode) => {
         if (node.option.isSingleArg) {
-          opts[_name] = node.argsMap[0];
-          // opts[name] = node.argsMap;
+          return occurrence.argsMap[0];
         } else if (node.option.isCounting) {
-          opts[_name] = this.optCount[node.option.name];
+          return this.optCount[node.option.name];
         } else if (!node.option.hasArgs) {
-          opts[_name] = node.argsMap[0];
+          return occurrence.argsMap[0];
+        }
+        return occurrence.argsMap;
+      };
+      for (const _name of variants) {
+        if (node.option.isMultiple) {
+          opts[_name] = node.option.isMap
+            ? Object.fromEntries(
+                node.occurrences
+                  .filter(x => x.mapKey !== undefined)
+                  .map(x => [x.mapKey, valueOf(x)])
+              )
+            : node.occurrences.map(valueOf);
+          optsFull[_name] = node.occurrences.map(x => x.argsMap);
+          verbatim[_name] = node.occurrences.map(x => x.argv);
         } else {
-          opts[_name] = node.argsMap;
+          opts[_name] = valueOf(node);
+          optsFull[_name] = node.argsMap;
         }
-        optsFull[_name] = node.argsMap;
         source[_name] = this.optNodes[name].source;
       }
     }
 
+    return { opts, optsFull, verbatim, source };
+  }
+
+  get jsonMeta(): CommandMeta<O, A> {
+    if (this._jsonMeta) {
+      return this._jsonMeta;
+    }
+
+    const { opts, optsFull, verbatim, source } = this._makeOpts();
+
     const subCommands = {};
     for (const name in this.subCmdNodes) {
       subCommands[name] = this.subCmdNodes[name].jsonMeta;
     }
 
-    const meta: CommandMeta = {
+    const meta: CommandMeta<O, A> = {
       name: this.name,
       alias: this.alias,
       argList: this.argsList,
-      args: this.argsMap,
-      opts,
+      args: this.argsMap as A,
+      opts: opts as O,
       optsFull,
       optsCount: this.optCount,
       source,
-      verbatim: {},
+      verbatim,
       subCommands
     };
 
@@ -0,0 +1,671 @@
+import { ArgInfo, BaseSpec, CliBase } from "./base.ts";
+import { CommandBase } from "./command-base.ts";
+import { CommandNode } from "./command-node.ts";
+import { OptionBase } from "./option-base.ts";
+import { OptionNode } from "./option-node.ts";
+import { ParserPending } from "./parser.ts";
+import { cbOrVal, prefixOption } from "./xtil.ts";
+
+/**
+ * Shells that completion scripts can be generated for
+ */
+export type CompletionShell = "bash" | "zsh" | "fish";
+
+export const COMPLETION_SHELLS: CompletionShell[] = ["bash", "zsh", "fish"];
+
+/**
+ * The hidden command that completion scripts invoke to get dynamic candidates, ie:
+ * `prog __complete build --target ""`
+ */
+export const COMPLETE_CMD = "__complete";
+
+/**
+ * What the word at the cursor is expected to be
+ *
+ * - `command`: a sub command
+ * - `command-arg`: an argument of the command (or a sub command)
+ * - `option`: an option name
+ * - `option-arg`: an argument of an option
+ */
+export type CompletionKind = "command" | "command-arg" | "option" | "option-arg";
+
+/**
+ * Context passed to the `complete` callbacks of options and commands
+ */
+export type CompletionContext = {
+  /** the word being completed */
+  current: string;
+  /** all the words after the program name, including the one being completed */
+  words: string[];
+  /** the command node from parsing the words before the current one */
+  command: CommandNode;
+  /** the option whose argument is being completed */
+  option?: OptionBase;
+  /** info about the argument being completed */
+  arg?: ArgInfo;
+  /** index of the argument being completed */
+  argIndex?: number;
+};
+
+/**
+ * Callback to provide completion candidates for an option or command argument
+ */
+export type CompleteFunc = (ctx: CompletionContext) => string[] | Promise<string[]>;
+
+/**
+ * The result of finding out what the word at the cursor is expected to be
+ */
+export type CompletionTarget = CompletionContext & {
+  /** what the word is expected to be */
+  kind: CompletionKind;
+  /** text to prepend to each candidate, ie: `--target=` */
+  prefix: string;
+};
+
+/**
+ * Completion data for an option that's visible to a command
+ */
+export type CompletionOption = {
+  /** name of the option */
+  name: string;
+  /** all the flags that can trigger the option, ie: `["--log-level", "-q"]` */
+  flags: string[];
+  /** the `--no-` negation flags for the option */
+  negations: string[];
+  /** first line of the option's description */
+  desc: string;
+  /** info about the argument the option takes, if any */
+  arg?: {
+    /** type of the first argument */
+    type: string;
+    /** whether the argument must be specified */
+    required: boolean;
+    /** fixed list of values for the argument, if known */
+    values?: string[];
+    /** whether the option has a `complete` callback for dynamic candidates */
+    dynamic?: boolean;
+  };
+};
+
+/**
+ * Completion data for a command, collected by walking the command tree
+ */
+export type CompletionCommand = {
+  /** space separated names from root to this command, root is `""` */
+  path: string;
+  /** name of the command */
+  name: string;
+  /** aliases of the command */
+  alias: string[];
+  /** first line of the command's description */
+  desc: string;
+  /**
+   * whether candidates of the command's arguments come from `__complete`, for its `complete`
+   * callback or arguments with choices
+   */
+  dynamic: boolean;
+  /** options visible to the command, including the ones inherited from parents */
+  options: CompletionOption[];
+  /** sub commands of the command */
+  subCommands: CompletionCommand[];
+};
+
+/**
+ * Get the first line of a description
+ *
+ * @param desc - description string or function
+ * @returns first line of the description, trimmed
+ */
+function firstLine(desc: unknown): string {
+  return (cbOrVal(desc) || "").trim().split("\n")[0];
+}
+
+/**
+ * Check if an option can be turned off with the `--no-` form
+ *
+ * @param opt - option
+ * @returns whether `--no-<name>` is meaningful for the option
+ */
+function isNegatable(opt: OptionBase): boolean {
+  return !opt.isCounting && (!opt.hasArgs || opt.args[0].type === "boolean");
+}
+
+/**
+ * Create completion data for an option
+ *
+ * @param opt - option
+ * @returns completion data for the option
+ */
+export function makeCompletionOption(opt: OptionBase): CompletionOption {
+  const aliases: string[] = [].concat(opt.spec.alias || []);
+  const data: CompletionOption = {
+    name: opt.name,
+    flags: [`--${opt.name}`].concat(aliases.map(prefixOption)),
+    negations: isNegatable(opt) ? [`--no-${opt.name}`] : [],
+    desc: firstLine(opt.spec.desc)
+  };
+
+  if (opt.hasArgs) {
+    const arg = opt.args[0];
+    data.arg = { type: arg.type, required: arg.required && arg.type !== "boolean" };
+    if (opt.spec.complete) {
+      data.arg.dynamic = true;
+    } else if (arg.choices) {
+      data.arg.values = arg.choices;
+    } else if (arg.type === "boolean") {
+      data.arg.values = ["true", "false"];
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Collect the options visible to a command, which includes the options of all its parents,
+ * unless they are shadowed by an option with the same name closer to the command, or hidden.
+ *
+ * @param cmd - command
+ * @returns completion data of the options
+ */
+function collectOptions(cmd: CommandBase): CompletionOption[] {
+  const seen = new Set<string>();
+  const options: CompletionOption[] = [];
+  for (let c = cmd; c; c = c.parent) {
+    for (const [name, opt] of Object.entries(c.options._options)) {
+      if (!seen.has(name)) {
+        seen.add(name);
+        if (!opt.hidden) {
+          options.push(makeCompletionOption(opt));
+        }
+      }
+    }
+  }
+  return options;
+}
+
+/**
+ * Walk the command tree and collect the data for generating completion scripts
+ *
+ * @param cmd - command to start from, usually the root command
+ * @param path - command path of `cmd`
+ * @returns completion data for the command and its sub commands
+ */
+export function makeCompletionData(cmd: CommandBase, path = ""): CompletionCommand {
+  return {
+    path,
+    name: cmd.name,
+    alias: cmd.alias,
+    desc: firstLine(cmd.cmdSpec.desc),
+    dynamic: Boolean(cmd.cmdSpec.complete || cmd.args.some(a => a.choices)) && cmd.expectArgs > 0,
+    options: collectOptions(cmd),
+    subCommands: Object.entries(cmd.visibleSubCmds).map(([name, sub]) =>
+      makeCompletionData(sub, path ? `${path} ${name}` : name)
+    )
+  };
+}
+
+/**
+ * Flatten the completion data tree into a list of commands
+ *
+ * @param data - completion data
+ * @param cmds - array to accumulate the commands
+ * @returns the list of commands
+ */
+function flatten(data: CompletionCommand, cmds: CompletionCommand[] = []) {
+  cmds.push(data);
+  for (const sub of data.subCommands) {
+    flatten(sub, cmds);
+  }
+  return cmds;
+}
+
+/**
+ * Quote a string for use in POSIX style shells (bash, zsh)
+ *
+ * @param s - string to quote
+ * @returns single quoted string
+ */
+export function shQuote(s: string) {
+  return `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a string for use in fish
+ *
+ * @param s - string to quote
+ * @returns single quoted string
+ */
+export function fishQuote(s: string) {
+  return `'${s.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Make a shell function name from the program name
+ *
+ * @param progName - program name
+ * @returns a name that's safe to use as a shell function name
+ */
+function funcName(progName: string) {
+  return `_${progName.replace(/[^A-Za-z0-9_]/g, "_")}`;
+}
+
+/**
+ * Generate the case patterns that track the command path from the words typed so far.
+ *
+ * @param cmds - flattened list of commands
+ * @param indent - indentation for each line
+ * @returns lines for the body of a `case "$cmd:$w" in` statement
+ */
+function makePathCases(cmds: CompletionCommand[], indent: string): string[] {
+  const lines: string[] = [];
+  for (const cmd of cmds) {
+    for (const sub of cmd.subCommands) {
+      const patterns = [sub.name].concat(sub.alias).map(n => shQuote(`${cmd.path}:${n}`));
+      lines.push(`${indent}${patterns.join("|")}) cmd=${shQuote(sub.path)} ;;`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Generate bash completion script
+ *
+ * @param progName - program name
+ * @param data - completion data
+ * @returns the script
+ */
+function makeBash(progName: string, data: CompletionCommand): string {
+  const fn = `${funcName(progName)}_completion`;
+  const dynFn = `${funcName(progName)}_dynamic`;
+  const cmds = flatten(data);
+
+  const argCases: string[] = [];
+  for (const cmd of cmds) {
+    for (const opt of cmd.options) {
+      if (!opt.arg) continue;
+      const patterns = opt.flags.map(f => shQuote(`${cmd.path}:${f}`)).join("|");
+      if (opt.arg.dynamic) {
+        argCases.push(`    ${patterns}) ${dynFn}; return ;;`);
+      } else if (opt.arg.values) {
+        const words = shQuote(opt.arg.values.join(" "));
+        argCases.push(`    ${patterns}) COMPREPLY=($(compgen -W ${words} -- "$cur")); return ;;`);
+      } else if (opt.arg.required) {
+        argCases.push(`    ${patterns}) return ;;`);
+      }
+    }
+  }
+
+  const wordCases = cmds.map(cmd => {
+    const opts = cmd.options.reduce((a, o) => a.concat(o.flags, o.negations), [] as string[]);
+    const subs = cmd.subCommands.reduce((a, s) => a.concat(s.name, s.alias), [] as string[]);
+    const dyn = cmd.dynamic ? "; dyn=1" : "";
+    return `    ${shQuote(cmd.path)}) opts=${shQuote(opts.join(" "))}; cmds=${shQuote(subs.join(" "))}${dyn} ;;`;
+  });
+
+  return [
+    `# bash completion for ${progName}`,
+    `${dynFn}() {`,
+    `  local IFS=$'\\n'`,
+    `  COMPREPLY=($(${progName} ${COMPLETE_CMD} "\${COMP_WORDS[@]:1:COMP_CWORD}"))`,
+    `}`,
+    `${fn}() {`,
+    `  local cur="\${COMP_WORDS[COMP_CWORD]}"`,
+    `  local prev="\${COMP_WORDS[COMP_CWORD-1]}"`,
+    `  local cmd="" w i opts cmds dyn`,
+    `  for ((i = 1; i < COMP_CWORD; i++)); do`,
+    `    w="\${COMP_WORDS[i]}"`,
+    `    case "$cmd:$w" in`,
+    ...makePathCases(cmds, "      "),
+    `    esac`,
+    `  done`,
+    `  case "$cmd:$prev" in`,
+    ...argCases,
+    `  esac`,
+    `  case "$cmd" in`,
+    ...wordCases,
+    `  esac`,
+    `  if [[ "$cur" == -* ]]; then`,
+    `    COMPREPLY=($(compgen -W "$opts" -- "$cur"))`,
+    `  elif [[ -n "$dyn" ]]; then`,
+    `    ${dynFn}`,
+    `  else`,
+    `    COMPREPLY=($(compgen -W "$cmds" -- "$cur"))`,
+    `  fi`,
+    `}`,
+    `complete -o default -F ${fn} ${progName}`,
+    ``
+  ].join("\n");
+}
+
+/**
+ * Make an entry for zsh's `_describe`, which is `name:description`
+ *
+ * @param name - name of the entry
+ * @param desc - description of the entry
+ * @returns quoted entry
+ */
+function zshEntry(name: string, desc: string) {
+  const n = name.replace(/:/g, "\\:");
+  return shQuote(desc ? `${n}:${desc}` : n);
+}
+
+/**
+ * Generate zsh completion script
+ *
+ * @param progName - program name
+ * @param data - completion data
+ * @returns the script
+ */
+function makeZsh(progName: string, data: CompletionCommand): string {
+  const fn = funcName(progName);
+  const dynFn = `${fn}_dynamic`;
+  const cmds = flatten(data);
+
+  const argCases: string[] = [];
+  for (const cmd of cmds) {
+    for (const opt of cmd.options) {
+      if (!opt.arg) continue;
+      const patterns = opt.flags.map(f => shQuote(`${cmd.path}:${f}`)).join("|");
+      if (opt.arg.dynamic) {
+        argCases.push(`    ${patterns}) ${dynFn}; return ;;`);
+      } else if (opt.arg.values) {
+        const words = opt.arg.values.map(shQuote).join(" ");
+        argCases.push(`    ${patterns}) compadd -- ${words}; return ;;`);
+      } else if (opt.arg.required) {
+        const action = opt.arg.type === "string" ? "_files" : `_message ${shQuote(opt.arg.type)}`;
+        argCases.push(`    ${patterns}) ${action}; return ;;`);
+      }
+    }
+  }
+
+  const wordCases = cmds.map(cmd => {
+    const opts = cmd.options.reduce(
+      (a, o) => a.concat(o.flags.concat(o.negations).map(f => zshEntry(f, o.desc))),
+      [] as string[]
+    );
+    const subs = cmd.subCommands.reduce(
+      (a, s) => a.concat([s.name].concat(s.alias).map(n => zshEntry(n, s.desc))),
+      [] as string[]
+    );
+    const dyn = cmd.dynamic ? "; dyn=1" : "";
+    return `    ${shQuote(cmd.path)}) opts=(${opts.join(" ")}); cmds=(${subs.join(" ")})${dyn} ;;`;
+  });
+
+  return [
+    `#compdef ${progName}`,
+    `${dynFn}() {`,
+    `  local -a cands`,
+    `  cands=("\${(@f)$(${progName} ${COMPLETE_CMD} "\${(@)words[2,CURRENT]}")}")`,
+    `  compadd -- "\${cands[@]}"`,
+    `}`,
+    `${fn}() {`,
+    `  local cmd="" w i dyn`,
+    `  local -a opts cmds`,
+    `  for ((i = 2; i < CURRENT; i++)); do`,
+    `    w="\${words[i]}"`,
+    `    case "$cmd:$w" in`,
+    ...makePathCases(cmds, "      "),
+    `    esac`,
+    `  done`,
+    `  case "$cmd:\${words[CURRENT-1]}" in`,
+    ...argCases,
+    `  esac`,
+    `  case "$cmd" in`,
+    ...wordCases,
+    `  esac`,
+    `  if [[ "\${words[CURRENT]}" == -* ]]; then`,
+    `    _describe -t options 'option' opts`,
+    `  elif [[ -n "$dyn" ]]; then`,
+    `    ${dynFn}`,
+    `  elif (( \${#cmds} > 0 )); then`,
+    `    _describe -t commands 'command' cmds`,
+    `  else`,
+    `    _files`,
+    `  fi`,
+    `}`,
+    `compdef ${fn} ${progName}`,
+    ``
+  ].join("\n");
+}
+
+/**
+ * Generate fish completion script
+ *
+ * @param progName - program name
+ * @param data - completion data
+ * @returns the script
+ */
+function makeFish(progName: string, data: CompletionCommand): string {
+  const fn = `_${funcName(progName)}_at_cmd`;
+  const dynFn = `_${funcName(progName)}_dynamic`;
+  const cmds = flatten(data);
+  const prog = fishQuote(progName);
+
+  const pathCases: string[] = [];
+  for (const cmd of cmds) {
+    for (const sub of cmd.subCommands) {
+      const patterns = [sub.name].concat(sub.alias).map(n => fishQuote(`${cmd.path}:${n}`));
+      pathCases.push(`      case ${patterns.join(" ")}`, `        set cmd ${fishQuote(sub.path)}`);
+    }
+  }
+
+  const completes: string[] = [];
+  for (const cmd of cmds) {
+    const cond = fishQuote(`${fn} ${fishQuote(cmd.path)}`);
+    if (cmd.dynamic) {
+      completes.push(`complete -c ${prog} -f -n ${cond} -a ${fishQuote(`(${dynFn})`)}`);
+    }
+    for (const sub of cmd.subCommands) {
+      for (const n of [sub.name].concat(sub.alias)) {
+        const desc = sub.desc ? ` -d ${fishQuote(sub.desc)}` : "";
+        completes.push(`complete -c ${prog} -f -n ${cond} -a ${fishQuote(n)}${desc}`);
+      }
+    }
+    for (const opt of cmd.options) {
+      const flags = opt.flags
+        .map(f =>
+          f.startsWith("--") ? `-l ${fishQuote(f.substring(2))}` : `-s ${fishQuote(f.substring(1))}`
+        )
+        .join(" ");
+      let argSpec = "";
+      if (opt.arg) {
+        if (opt.arg.dynamic) {
+          argSpec = ` -x -a ${fishQuote(`(${dynFn})`)}`;
+        } else if (opt.arg.values) {
+          argSpec = ` -x -a ${fishQuote(opt.arg.values.join(" "))}`;
+        } else if (opt.arg.required) {
+          argSpec = opt.arg.type === "string" ? " -r" : " -x";
+        }
+      }
+      const desc = opt.desc ? ` -d ${fishQuote(opt.desc)}` : "";
+      completes.push(`complete -c ${prog} -n ${cond} ${flags}${argSpec}${desc}`);
+      for (const neg of opt.negations) {
+        completes.push(`complete -c ${prog} -n ${cond} -l ${fishQuote(neg.substring(2))}${desc}`);
+      }
+    }
+  }
+
+  return [
+    `# fish completion for ${progName}`,
+    `function ${fn}`,
+    `  set -l cmd ''`,
+    `  for w in (commandline -opc)[2..-1]`,
+    `    switch "$cmd:$w"`,
+    ...pathCases,
+    `    end`,
+    `  end`,
+    `  test "$cmd" = "$argv[1]"`,
+    `end`,
+    `function ${dynFn}`,
+    `  ${progName} ${COMPLETE_CMD} (commandline -opc)[2..-1] (commandline -ct)`,
+    `end`,
+    ...completes,
+    ``
+  ].join("\n");
+}
+
+/**
+ * Find the arg info for the N-th argument value, taking array args into account
+ *
+ * @param args - arg infos
+ * @param index - index of the argument value
+ * @returns the arg info
+ */
+function argInfoAt(args: ArgInfo[], index: number): ArgInfo {
+  let ix = 0;
+  while (ix < args.length - 1 && index >= args[ix].max) {
+    index -= args[ix].max;
+    ix++;
+  }
+  return args[ix];
+}
+
+/**
+ * Find an option that's visible to a command, including the ones from parents
+ *
+ * @param cmd - command
+ * @param name - name, alias, or abbreviation of the option
+ * @returns the option, or `undefined` if not found
+ */
+function findOption(cmd: CommandBase, name: string): OptionBase | undefined {
+  for (let c = cmd; c; c = c.parent) {
+    try {
+      const matched = c.options.match({ name, value: "", verbatim: "", arg: "", dashes: 2 });
+      if (matched) {
+        return matched.option;
+      }
+    } catch {
+      // ambiguous abbreviation, nothing to complete
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find out what the last word is expected to be, from the state the parser was in after
+ * parsing all the words before it.
+ *
+ * @param words - words after the program name, the last one is being completed
+ * @param pending - the node that was still open when the parser stopped
+ * @returns the completion target
+ */
+export function makeCompletionTarget(words: string[], pending: ParserPending): CompletionTarget {
+  const current = words.length > 0 ? words[words.length - 1] : "";
+  const node = pending.node;
+  const command =
+    node instanceof OptionNode ? node.getParent<CommandNode>() : (node as CommandNode);
+  const target: CompletionTarget = { kind: "command", current, words, command, prefix: "" };
+
+  if (current.startsWith("-")) {
+    const eqX = current.indexOf("=");
+    const option =
+      current.startsWith("--") && eqX > 0 && findOption(command.cmdBase, current.substring(2, eqX));
+    if (option) {
+      return {
+        ...target,
+        kind: "option-arg",
+        option,
+        arg: option.args[0],
+        argIndex: 0,
+        current: current.substring(eqX + 1),
+        prefix: current.substring(0, eqX + 1)
+      };
+    }
+    return { ...target, kind: "option" };
+  }
+
+  const argIndex = pending.argCount;
+  if (node instanceof OptionNode) {
+    return {
+      ...target,
+      kind: "option-arg",
+      option: node.option,
+      arg: argInfoAt(node.option.args, argIndex),
+      argIndex
+    };
+  }
+
+  if (argIndex < command.cmdBase.expectArgs) {
+    return {
+      ...target,
+      kind: "command-arg",
+      arg: argInfoAt(command.cmdBase.args, argIndex),
+      argIndex
+    };
+  }
+
+  return target;
+}
+
+/**
+ * Call the `complete` callback of an option or command for the target argument
+ *
+ * @param base - the option or command
+ * @param target - completion target
+ * @returns candidates
+ */
+async function callComplete(base: CliBase<BaseSpec>, target: CompletionTarget): Promise<string[]> {
+  const complete = base.spec.complete;
+  const func =
+    typeof complete === "function"
+      ? complete
+      : complete?.[target.arg?.name] || complete?.[target.argIndex];
+
+  if (func) {
+    return [].concat(await func(target));
+  } else if (target.arg?.choices) {
+    return target.arg.choices;
+  } else if (target.arg?.type === "boolean") {
+    return ["true", "false"];
+  }
+
+  return [];
+}
+
+/**
+ * Get the completion candidates for a target, filtered by the word being completed.
+ *
+ * @param target - completion target
+ * @returns candidates
+ */
+export async function getCompletionCandidates(target: CompletionTarget): Promise<string[]> {
+  const cmd = target.command.cmdBase;
+  let candidates: string[];
+
+  if (target.kind === "option") {
+    candidates = collectOptions(cmd).reduce((a, o) => a.concat(o.flags, o.negations), []);
+  } else if (target.kind === "option-arg") {
+    candidates = await callComplete(target.option, target);
+  } else {
+    candidates = cmd.subCommandNames;
+    if (target.kind === "command-arg") {
+      candidates = (await callComplete(cmd, target)).concat(candidates);
+    }
+  }
+
+  return candidates.filter(c => c.startsWith(target.current)).map(c => `${target.prefix}${c}`);
+}
+
+/**
+ * Generate a shell completion script for a command tree
+ *
+ * @param shell - the shell to generate the script for
+ * @param progName - name of the program to complete
+ * @param rootCmd - root command of the command tree
+ * @returns the completion script
+ */
+export function makeCompletion(shell: CompletionShell, progName: string, rootCmd: CommandBase) {
+  const data = makeCompletionData(rootCmd);
+  if (shell === "bash") {
+    return makeBash(progName, data);
+  } else if (shell === "zsh") {
+    return makeZsh(progName, data);
+  } else if (shell === "fish") {
+    return makeFish(progName, data);
+  }
+
+  throw new Error(
+    `Unsupported shell '${shell}' for completion - expected one of: ${COMPLETION_SHELLS.join(", ")}`
+  );
+}
@@ -0,0 +1,118 @@
+import Fs from "fs";
+import Os from "os";
+import Path from "path";
+import { NixClapError } from "./base.ts";
+
+/**
+ * Options for discovering and loading config files
+ */
+export type ConfigFileOptions = {
+  /**
+   * Base name of the config files.  Default to the program name.
+   *
+   * With name `myapp`, the files searched in each directory are `package.json` (the `myapp` key),
+   * `.myapprc`, and `.myapprc.json`.
+   */
+  name?: string;
+  /**
+   * Directory to start searching from.  Default to `process.cwd()`.
+   */
+  cwd?: string;
+  /**
+   * Home directory, searched after the directories from `cwd` up to the root.
+   * Default to `os.homedir()`.  Set to `false` to skip it.
+   */
+  home?: string | false;
+  /**
+   * Name of the option that overrides discovery with an explicit config file path.
+   * Default to `config`.  Set to `false` to not add the option.
+   */
+  option?: string | false;
+};
+
+/**
+ * Get the candidate config file names within a directory, in increasing precedence.
+ *
+ * @param name - base name of the config files
+ * @returns file names
+ */
+function configFileNames(name: string) {
+  return ["package.json", `.${name}rc`, `.${name}rc.json`];
+}
+
+/**
+ * Search directories from `cwd` up to the root, and then the home directory, for config files.
+ *
+ * @param name - base name of the config files
+ * @param cwd - directory to start searching from
+ * @param home - home directory, or `false` to skip it
+ * @returns full paths of the files found, in increasing precedence, so files closer to `cwd`
+ *   override files farther away, and files in home have the lowest precedence.
+ */
+export function findConfigFiles(
+  name: string,
+  cwd: string = process.cwd(),
+  home: string | false = Os.homedir()
+): string[] {
+  const dirs: string[] = [];
+  let dir = Path.resolve(cwd);
+  for (;;) {
+    dirs.push(dir);
+    const up = Path.dirname(dir);
+    if (up === dir) {
+      break;
+    }
+    dir = up;
+  }
+
+  if (home && !dirs.includes(Path.resolve(home))) {
+    dirs.push(Path.resolve(home));
+  }
+
+  const files: string[] = [];
+  for (const d of dirs.reverse()) {
+    for (const f of configFileNames(name)) {
+      const file = Path.join(d, f);
+      if (Fs.existsSync(file)) {
+        files.push(file);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Load the config from a file.  All files are JSON, and for `package.json`, the config is
+ * the value of the key `name`.  The `$schema` key, for editors to find the JSON schema, is
+ * not an option, so it's removed.
+ *
+ * @param file - path to the config file
+ * @param name - base name of the config files
+ * @returns the config, or `undefined` if `package.json` doesn't have the key
+ * @throws NixClapError if the file can't be read or parsed, or the config is not an object
+ */
+export function loadConfigFile(file: string, name: string): Record<string, any> | undefined {
+  let config: any;
+  try {
+    config = JSON.parse(Fs.readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new NixClapError(`Failed to load config file ${file}: ${err.message}`, "CONFIG_FILE", {
+      cause: err
+    });
+  }
+
+  if (Path.basename(file) === "package.json") {
+    config = config[name];
+    if (config === undefined) {
+      return undefined;
+    }
+  }
+
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new NixClapError(`Config in file ${file} is not an object`, "CONFIG_FILE");
+  }
+
+  delete config.$schema;
+  return config;
+}
@@ -0,0 +1,240 @@
+import { plainTheme, Theme } from "./theme.ts";
+import {
+  fitLines,
+  getTerminalWidth,
+  nextZebraIndex,
+  noAnsiLen,
+  padStr,
+  resetZebraIndex
+} from "./xtil.ts";
+
+/**
+ * A sub command in the help of a command
+ */
+export type HelpCommandEntry = {
+  /** name of the sub command */
+  name: string;
+  /** the sub command with its args, ie: `remote add <name>` */
+  usage: string;
+  /** description of the sub command */
+  desc?: string;
+  /** aliases of the sub command */
+  aliases: string[];
+  /** tags of the constraints of the args, ie: `[min: 1]` */
+  tags: string[];
+  /** the deprecation message, if the sub command is deprecated */
+  deprecated?: string;
+};
+
+/**
+ * An option in the help of a command
+ */
+export type HelpOptionEntry = {
+  /** name of the option */
+  name: string;
+  /** the option with its aliases, ie: `--verbose, -v` */
+  usage: string;
+  /** description of the option */
+  desc?: string;
+  /** type of the option's value, ie: `number` or `string ..` */
+  type?: string;
+  /** default value of the option */
+  default?: unknown;
+  /** name of the environment variable the option is bound to */
+  env?: string;
+  /** tags of the constraints of the value, ie: `[choices: "a", "b"]` */
+  tags: string[];
+  /** the deprecation message, if the option is deprecated */
+  deprecated?: string;
+};
+
+/**
+ * A section of options in the help of a command
+ */
+export type HelpOptionGroup = {
+  /** title of the section, ie: `Options` or `Global Options` */
+  title: string;
+  options: HelpOptionEntry[];
+};
+
+/**
+ * An example in the help of a command
+ */
+export type HelpExample = {
+  /** the example, with `$0` replaced with the program name */
+  cmd: string;
+  desc?: string;
+};
+
+/**
+ * Everything that's shown in the help of a command, for a `HelpRenderer` to lay out.
+ */
+export type HelpModel = {
+  /** name of the program */
+  program: string;
+  /** names of the commands from root to the command, as user entered them */
+  cmdPath: string[];
+  /** the usage lines, without the `Usage: ` prefix */
+  usage: string[];
+  /** description of the command */
+  desc?: string;
+  /** name of the command, if user entered one of its aliases */
+  aliasOf?: string;
+  commands: HelpCommandEntry[];
+  groups: HelpOptionGroup[];
+  examples: HelpExample[];
+  /** text to show at the end, with `$0` replaced with the program name */
+  epilog?: string;
+  /** why the help can't be made, ie: a command in the path is unknown */
+  error?: string;
+};
+
+/**
+ * Lays out a help model as lines of text, with the styles of the theme, which has no styles
+ * if colors are off.  Register one with the `helpRenderers` config of NixClap, and then
+ * select it with `--help=<name>`.
+ */
+export type HelpRenderer = (model: HelpModel, theme: Theme) => string[];
+
+/**
+ * Render entries as lines that fit the terminal, with the descriptions aligned after the
+ * widest entry, and zebra striping if it's enabled.
+ *
+ * @param data - the columns of each entry
+ * @returns the lines
+ */
+function renderEntries(data: string[][]): string[] {
+  const width = data.reduce((max, strs) => Math.max(max, noAnsiLen(strs[0])), 0);
+
+  resetZebraIndex();
+  return data.flatMap(strs => {
+    const lines = fitLines(strs, "  ", "    ", width, getTerminalWidth());
+    nextZebraIndex();
+    return lines;
+  });
+}
+
+/**
+ * Render the sub commands of a command
+ *
+ * @param commands - the sub commands
+ * @param theme - styles for the parts
+ * @returns the lines
+ */
+export function renderCommandsHelp(
+  commands: HelpCommandEntry[],
+  theme: Theme = plainTheme
+): string[] {
+  return renderEntries(
+    commands.map(entry => {
+      const tags = entry.tags.slice();
+      if (entry.aliases.length > 0) {
+        tags.unshift(`[aliases: ${entry.aliases.join(" ")}]`);
+      }
+      if (entry.deprecated) {
+        tags.unshift("[deprecated]");
+      }
+      return [theme.command(entry.usage), entry.desc ? ` ${entry.desc}` : "", tags.join(" ")];
+    })
+  );
+}
+
+/**
+ * Render the options of a section
+ *
+ * @param options - the options
+ * @param theme - styles for the parts
+ * @returns the lines
+ */
+export function renderOptionsHelp(options: HelpOptionEntry[], theme: Theme = plainTheme): string[] {
+  return renderEntries(
+    options.map(entry => {
+      const tail = [
+        entry.deprecated && "[deprecated]",
+        entry.type && theme.type(`[${entry.type}]`),
+        ...entry.tags
+      ];
+      if (entry.default !== undefined) {
+        tail.push(theme.default(`[default: ${JSON.stringify(entry.default)}]`));
+      }
+      if (entry.env) {
+        tail.push(`[env: ${entry.env}]`);
+      }
+      const desc = entry.desc ? ` ${entry.desc}` : "";
+      return [theme.option(entry.usage), desc, tail.filter(x => x).join(" ")];
+    })
+  );
+}
+
+/**
+ * Render the examples, with the descriptions aligned
+ *
+ * @param examples - the examples
+ * @returns the lines
+ */
+export function renderExamplesHelp(examples: HelpExample[]): string[] {
+  const cmdWidth = examples.reduce((max, example) => Math.max(max, example.cmd.length), 0);
+
+  return examples.map(({ cmd, desc }) =>
+    desc ? `  ${padStr(cmd, cmdWidth)}  ${desc}` : `  ${cmd}`
+  );
+}
+
+/**
+ * The default renderer, for the help text shown by `--help`
+ *
+ * @param model - the help model
+ * @param theme - styles for the parts, default to no styles
+ * @returns the lines of the help text
+ */
+export const renderHelpText: HelpRenderer = (model, theme = plainTheme) => {
+  if (model.error) {
+    return [model.error];
+  }
+
+  const lines = [""];
+
+  if (model.usage.length > 0) {
+    const [first, ...rest] = model.usage;
+    lines.push(`${theme.heading("Usage:")} ${first}`.trim(), ...rest.map(u => `  ${u}`), "");
+    if (model.desc) {
+      lines.push(`  ${model.desc}`);
+    }
+    if (model.aliasOf) {
+      lines.push(
+        `Command '${model.cmdPath[model.cmdPath.length - 1]}' is alias for '${model.aliasOf}'`
+      );
+    }
+  }
+
+  if (model.commands.length > 0) {
+    lines.push(theme.heading("Commands:"), ...renderCommandsHelp(model.commands, theme));
+  }
+
+  for (const group of model.groups) {
+    lines.push("", theme.heading(`${group.title}:`), ...renderOptionsHelp(group.options, theme));
+  }
+  /* c8 ignore next 4 */ // Subcommands now have help option added automatically
+  if (model.groups.length === 0 && model.cmdPath.length > 0) {
+    const name = model.aliasOf || model.cmdPath[model.cmdPath.length - 1];
+    lines.push(`Command ${name} has no options`);
+  }
+
+  if (model.examples.length > 0) {
+    lines.push("", theme.heading("Examples:"), ...renderExamplesHelp(model.examples));
+  }
+
+  if (model.epilog) {
+    lines.push("", model.epilog);
+  }
+
+  return lines;
+};
+
+/**
+ * Renderer for `--help=json`, to output the help model as JSON for tools
+ *
+ * @param model - the help model
+ * @returns the lines of the JSON
+ */
+export const renderHelpJSON: HelpRenderer = model => JSON.stringify(model, null, 2).split("\n");
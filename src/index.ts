@@ -1,9 +1,48 @@
 export { NixClap } from "./nix-clap.ts";
+export { defineCommand, defineOptions } from "./typed-spec.ts";
 export { CommandBase as Command } from "./command-base.ts";
-export { InvalidArgSpecifierError, UnknownOptionError, UnknownCliArgError } from "./base.ts";
-export type { CommandSpec } from "./command-base.ts";
+export { renderHelpText, renderHelpJSON } from "./help-model.ts";
+export { defaultTheme, detectColor } from "./theme.ts";
+export {
+  NixClapError,
+  MissingRequiredOptionError,
+  InvalidArgSpecifierError,
+  UnknownOptionError,
+  UnknownCliArgError,
+  AmbiguousMatchError
+} from "./base.ts";
+export type { CommandSpec, CommandExample, ExclusiveGroup } from "./command-base.ts";
 export type { CommandMeta, OptionValue, ArgumentValue, OptionSource } from "./command-meta.ts";
-export type { OptionSpec } from "./option-base.ts";
+export type { OptionSpec, MapSpec } from "./option-base.ts";
 export type { ParseResult } from "./nix-clap.ts";
-export type { NixClapConfig } from "./nix-clap.ts";
+export type { NixClapConfig, ExampleFailure } from "./nix-clap.ts";
 export type { CommandExecFunc } from "./command-base.ts";
+export type {
+  CompletionShell,
+  CompletionContext,
+  CompletionTarget,
+  CompleteFunc
+} from "./completion.ts";
+export type { ConfigFileOptions } from "./config-file.ts";
+export type { JSONSchema } from "./json-schema.ts";
+export type { ManPageOptions } from "./man-page.ts";
+export type { MarkdownDocsOptions } from "./markdown-docs.ts";
+export type {
+  HelpModel,
+  HelpRenderer,
+  HelpCommandEntry,
+  HelpOptionEntry,
+  HelpOptionGroup,
+  HelpExample
+} from "./help-model.ts";
+export type { Theme, StyleFunc } from "./theme.ts";
+export type {
+  ValidateContext,
+  ValidateFunc,
+  ValidateResult,
+  Deprecation,
+  DeprecationNotice,
+  NixClapErrorCode,
+  NixClapErrorInfo
+} from "./base.ts";
+export type { InferArgs, InferOptionValue, InferOpts, TypedCommandSpec } from "./typed-spec.ts";
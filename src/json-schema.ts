@@ -0,0 +1,226 @@
+import { ArgInfo, isRootCommand } from "./base.ts";
+import { CommandBase } from "./command-base.ts";
+import { OptionBase } from "./option-base.ts";
+import { cbOrVal, toBoolean } from "./xtil.ts";
+
+/**
+ * The subset of JSON Schema (draft-07) generated for the CLI definition
+ */
+export type JSONSchema = {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  enum?: (string | number | boolean)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  items?: JSONSchema | JSONSchema[];
+  additionalItems?: JSONSchema | boolean;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+};
+
+/**
+ * Names of built-in options and commands to leave out of the schema
+ */
+export type JSONSchemaSkip = {
+  /** options to leave out for the root command */
+  rootOptions: string[];
+  /** options to leave out for all commands */
+  options: string[];
+  /** sub commands to leave out for the root command */
+  commands: string[];
+};
+
+/**
+ * Convert a string value from the spec, like `argDefault`, to the value for an arg type
+ *
+ * @param type - type of the arg
+ * @param value - value from the spec
+ * @returns converted value
+ */
+function convertValue(type: string, value: string): string | number | boolean {
+  if (["number", "float", "int", "integer", "count"].includes(type)) {
+    return Number(value);
+  } else if (type === "boolean") {
+    return toBoolean(value);
+  }
+  return value;
+}
+
+/**
+ * Make the schema for the value of one arg
+ *
+ * @param arg - the arg
+ * @param base - the option the arg belongs to
+ * @returns the schema
+ */
+function makeArgSchema(arg: ArgInfo, base: OptionBase): JSONSchema {
+  const { min, max, integer } = base.spec;
+  const schema: JSONSchema = {};
+
+  if (["int", "integer"].includes(arg.type) || (integer && arg.type === "number")) {
+    schema.type = "integer";
+  } else if (["number", "float"].includes(arg.type)) {
+    schema.type = "number";
+  } else if (["string", "boolean"].includes(arg.type)) {
+    schema.type = arg.type;
+  }
+
+  if (arg.choices) {
+    schema.enum = arg.choices.map(c => convertValue(arg.type, c));
+  }
+
+  if (schema.type === "number" || schema.type === "integer") {
+    if (min !== undefined) {
+      schema.minimum = min;
+    }
+    if (max !== undefined) {
+      schema.maximum = max;
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Make the schema for the value of an option, as it's accepted by `applyConfig`
+ *
+ * - no args: `boolean`, or `integer` for counting options
+ * - one arg: the arg's schema, or an array of it if the arg is variadic
+ * - more args: an array with the schema of each arg
+ * - map options: an object with the arg's schema for the values
+ *
+ * @param opt - the option
+ * @returns the schema
+ */
+function makeOptionSchema(opt: OptionBase): JSONSchema {
+  const spec = opt.spec;
+  let schema: JSONSchema;
+
+  if (opt.isCounting) {
+    schema = { type: "integer", minimum: 0 };
+    if (Number.isFinite(spec.counting)) {
+      schema.maximum = spec.counting;
+    }
+  } else if (!opt.hasArgs) {
+    schema = { type: "boolean" };
+  } else if (opt.isMap) {
+    schema = { type: "object", additionalProperties: makeArgSchema(opt.args[0], opt) };
+  } else if (opt.isSingleArg && !opt.isVariadicArgs) {
+    schema = makeArgSchema(opt.args[0], opt);
+  } else {
+    const items = opt.args.map(arg => makeArgSchema(arg, opt));
+    schema = { type: "array" };
+    if (opt.isSingleArg) {
+      schema.items = items[0];
+    } else {
+      schema.items = opt.isVariadicArgs ? items.slice(0, -1) : items;
+      schema.additionalItems = opt.isVariadicArgs ? items[items.length - 1] : false;
+    }
+    if (opt.needArgs > 0) {
+      schema.minItems = opt.needArgs;
+    }
+    if (Number.isFinite(opt.expectArgs)) {
+      schema.maxItems = opt.expectArgs;
+    }
+  }
+
+  const desc = (cbOrVal(spec.desc) || "").trim();
+  if (desc) {
+    schema.description = desc;
+  }
+
+  if (spec.argDefault !== undefined && spec.argDefault !== null && !opt.isMap) {
+    const values = [].concat(spec.argDefault);
+    if (schema.type === "array") {
+      schema.default = values.map((v, ix) =>
+        convertValue(opt.args[Math.min(ix, opt.args.length - 1)].type, v)
+      );
+    } else {
+      schema.default = convertValue(opt.hasArgs ? opt.args[0].type : "boolean", values[0]);
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Escape a name for use in a JSON pointer
+ *
+ * @param name - the name
+ * @returns escaped name
+ */
+function escapePointer(name: string) {
+  return name.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Make the JSON schema for the option object of a command, with its sub commands as nested
+ * properties, as it's accepted by `applyConfig`.  Aliases are properties that `$ref` the
+ * option or command they belong to.
+ *
+ * @param cmd - the command
+ * @param skip - built-in options and commands to leave out
+ * @param pointer - JSON pointer to the schema of the command
+ * @returns the schema
+ */
+export function makeJSONSchema(cmd: CommandBase, skip: JSONSchemaSkip, pointer = "#"): JSONSchema {
+  const isRoot = isRootCommand(cmd.alias[0]);
+  const skipOptions = isRoot ? skip.options.concat(skip.rootOptions) : skip.options;
+  const skipCommands = isRoot ? skip.commands : [];
+
+  const properties: Record<string, JSONSchema> = {};
+  const aliases: Record<string, string> = {};
+  const required: string[] = [];
+
+  const options = cmd.options._options;
+  for (const name in options) {
+    if (skipOptions.includes(name)) {
+      continue;
+    }
+    const opt = options[name];
+    properties[name] = makeOptionSchema(opt);
+    for (const alias of [].concat(opt.spec.alias || [])) {
+      aliases[alias] = name;
+    }
+    if (opt.spec.required) {
+      required.push(name);
+    }
+  }
+
+  for (const name in cmd.subCmdsBase) {
+    if (skipCommands.includes(name)) {
+      continue;
+    }
+    const subCmd = cmd.subCmdsBase[name];
+    properties[name] = makeJSONSchema(subCmd, skip, `${pointer}/properties/${escapePointer(name)}`);
+    for (const alias of subCmd.alias.filter(x => x)) {
+      aliases[alias] = name;
+    }
+  }
+
+  for (const alias in aliases) {
+    if (!properties[alias]) {
+      properties[alias] = { $ref: `${pointer}/properties/${escapePointer(aliases[alias])}` };
+    }
+  }
+
+  const schema: JSONSchema = { type: "object" };
+  const desc = (cmd.desc || "").trim();
+  if (desc) {
+    schema.description = desc;
+  }
+  schema.properties = properties;
+  if (required.length > 0) {
+    schema.required = required;
+  }
+  schema.additionalProperties = !!cmd.spec.allowUnknownOption;
+
+  return schema;
+}
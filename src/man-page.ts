@@ -0,0 +1,266 @@
+import { CommandBase } from "./command-base.ts";
+import { cbOrVal } from "./xtil.ts";
+
+/**
+ * Options for generating man pages
+ */
+export type ManPageOptions = {
+  /** section of the manual, default `1` */
+  section?: string | number;
+  /** date in the page footer, default to today as `YYYY-MM-DD` */
+  date?: string;
+  /** source in the page footer, default to the program name and version, ie: `myapp 1.0.0` */
+  source?: string;
+  /** title of the manual in the page header, default `User Commands` */
+  manual?: string;
+  /**
+   * Document each sub command on its own page, git-style, ie: `myapp-build.1`, and refer to
+   * the pages in the COMMANDS section, instead of documenting all sub commands in one page.
+   */
+  subCommandPages?: boolean;
+};
+
+/**
+ * Info about the program needed by the man pages
+ */
+export type ManPageProgram = {
+  /** name of the program */
+  name: string;
+  /** version of the program */
+  version?: string | number | false;
+};
+
+/**
+ * Escape text for roff, so hyphens, backslashes and control characters at the start of
+ * lines are not interpreted.
+ *
+ * @param text - the text
+ * @returns escaped text
+ */
+function escapeRoff(text: string): string {
+  return text
+    .replace(/\\/g, "\\e")
+    .replace(/-/g, "\\-")
+    .replace(/^([.'])/gm, "\\&$1");
+}
+
+/**
+ * Get the name of the page for a command, ie: `myapp-remote-add`
+ *
+ * @param prog - the program
+ * @param path - names of the commands from root to the command
+ * @returns name of the page
+ */
+function pageName(prog: ManPageProgram, path: string[]) {
+  return [prog.name].concat(path).join("-");
+}
+
+/**
+ * Make the roff for a reference to another page, ie: `myapp-build(1)` in bold
+ *
+ * @param name - name of the page
+ * @param section - section of the page
+ * @returns the roff
+ */
+function pageRef(name: string, section: string) {
+  return `\\fB${escapeRoff(name)}\\fR(${section})`;
+}
+
+/**
+ * Make the indented paragraphs for options
+ *
+ * @param cmd - the command
+ * @returns the roff lines
+ */
+function makeOptions(cmd: CommandBase): string[] {
+  const lines: string[] = [];
+  for (const opt of cmd.options.visibleOptions) {
+    const flags = opt.help.split(", ").map(f => `\\fB${escapeRoff(f)}\\fR`);
+    lines.push(".TP", flags.join(", ") + (opt.type ? ` \\fI${escapeRoff(opt.type)}\\fR` : ""));
+
+    const desc = (cbOrVal(opt.spec.desc) || "").trim();
+    if (desc) {
+      lines.push(escapeRoff(desc));
+    }
+
+    const tags = opt.makeConstraintsHelp();
+    if (opt.spec.argDefault !== undefined && opt.spec.argDefault !== null) {
+      tags.push(`[default: ${JSON.stringify(opt.spec.argDefault)}]`);
+    }
+    const envName = opt.envName(cmd.ncConfig?.envPrefix);
+    if (envName) {
+      tags.push(`[env: ${envName}]`);
+    }
+    if (tags.length > 0) {
+      lines.push(...(desc ? [".br"] : []), escapeRoff(tags.join(" ")));
+    }
+  }
+  return lines;
+}
+
+/**
+ * Make the roff lines for the description and aliases of a sub command in COMMANDS
+ *
+ * @param cmd - the sub command
+ * @returns the roff lines
+ */
+function makeCommandInfo(cmd: CommandBase): string[] {
+  const lines: string[] = [];
+  const desc = (cmd.desc || "").trim();
+  if (desc) {
+    lines.push(escapeRoff(desc));
+  }
+  const tags = cmd.makeConstraintsHelp();
+  const alias = cmd.alias.join(" ");
+  if (alias) {
+    tags.unshift(`[aliases: ${alias}]`);
+  }
+  if (tags.length > 0) {
+    lines.push(...(desc ? [".br"] : []), escapeRoff(tags.join(" ")));
+  }
+  return lines;
+}
+
+/**
+ * Make the indented paragraphs for all the sub commands of a command, and their options,
+ * recursively.
+ *
+ * @param cmd - the command
+ * @param prefix - names of the commands from the command of the page to `cmd`
+ * @returns the roff lines
+ */
+function makeCommands(cmd: CommandBase, prefix: string[]): string[] {
+  const lines: string[] = [];
+  for (const [name, subCmd] of Object.entries(cmd.visibleSubCmds)) {
+    const cmdText = prefix.concat(name).join(" ");
+    const args = subCmd.verbatimArgs ? ` ${escapeRoff(subCmd.verbatimArgs)}` : "";
+    lines.push(".TP", `\\fB${escapeRoff(cmdText)}\\fR${args}`, ...makeCommandInfo(subCmd));
+    const options = makeOptions(subCmd);
+    if (options.length > 0) {
+      lines.push(".RS", ".PP", "Options:", ...options, ".RE");
+    }
+    lines.push(...makeCommands(subCmd, prefix.concat(name)));
+  }
+  return lines;
+}
+
+/**
+ * Generate the man page of a command, in roff.
+ *
+ * @param cmd - the command
+ * @param prog - the program
+ * @param path - names of the commands from root to the command
+ * @param options - options for the page
+ * @returns the man page
+ */
+export function makeManPage(
+  cmd: CommandBase,
+  prog: ManPageProgram,
+  path: string[],
+  options: ManPageOptions = {}
+): string {
+  const section = `${options.section ?? 1}`;
+  const date = options.date ?? new Date().toISOString().slice(0, 10);
+  const source = options.source ?? [prog.name, prog.version].filter(x => x).join(" ");
+  const manual = options.manual ?? "User Commands";
+  const name = pageName(prog, path);
+  const header = [name.toUpperCase(), section, date, source, manual];
+
+  const lines = [`.TH ${header.map(x => `"${escapeRoff(x)}"`).join(" ")}`];
+
+  const desc = (cmd.desc || "").trim();
+  lines.push(".SH NAME", escapeRoff(desc ? `${name} - ${desc.split("\n")[0]}` : name));
+
+  const cmdText = `\\fB${escapeRoff([prog.name].concat(path).join(" "))}\\fR`;
+  const synopsis: string[] = [];
+  const hasSubCommands = Object.keys(cmd.visibleSubCmds).length > 0;
+  if (cmd.verbatimArgs || !hasSubCommands) {
+    const args = cmd.verbatimArgs ? ` ${escapeRoff(cmd.verbatimArgs)}` : "";
+    synopsis.push(`${cmdText}${args} [\\fIoptions\\fR]`);
+  }
+  if (hasSubCommands) {
+    synopsis.push(`${cmdText} \\fI<command>\\fR [\\fIcommand\\-args\\fR] [\\fIoptions\\fR]`);
+  }
+  lines.push(".SH SYNOPSIS", synopsis.join("\n.br\n"));
+
+  const alias = path.length > 0 ? cmd.alias.join(", ") : "";
+  if (desc || alias) {
+    lines.push(".SH DESCRIPTION");
+    if (desc) {
+      lines.push(
+        desc
+          .split(/\n\s*\n/)
+          .map(escapeRoff)
+          .join("\n.PP\n")
+      );
+    }
+    if (alias) {
+      lines.push(...(desc ? [".PP"] : []), `Aliases: ${escapeRoff(alias)}`);
+    }
+  }
+
+  const optionLines = makeOptions(cmd);
+  if (optionLines.length > 0) {
+    lines.push(".SH OPTIONS", ...optionLines);
+  }
+
+  const seeAlso: string[] = [];
+  if (hasSubCommands) {
+    lines.push(".SH COMMANDS");
+    if (options.subCommandPages) {
+      for (const [subName, subCmd] of Object.entries(cmd.visibleSubCmds)) {
+        const ref = pageRef(pageName(prog, path.concat(subName)), section);
+        lines.push(".TP", ref, ...makeCommandInfo(subCmd));
+        seeAlso.push(ref);
+      }
+    } else {
+      lines.push(...makeCommands(cmd, []));
+    }
+  }
+
+  const examples = cmd.examples;
+  if (examples.length > 0) {
+    lines.push(".SH EXAMPLES");
+    for (const example of examples) {
+      lines.push(".TP", `\\fB${escapeRoff(example.cmd.replace(/\$0/g, prog.name))}\\fR`);
+      if (example.desc) {
+        lines.push(escapeRoff(example.desc));
+      }
+    }
+  }
+
+  if (options.subCommandPages && path.length > 0) {
+    seeAlso.unshift(pageRef(pageName(prog, path.slice(0, -1)), section));
+  }
+  if (seeAlso.length > 0) {
+    lines.push(".SH SEE ALSO", seeAlso.join(", "));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Generate man pages for a command and all its sub commands, git-style, with each sub
+ * command on its own page, ie: `myapp.1`, `myapp-build.1` and `myapp-remote-add.1`.
+ *
+ * @param cmd - the command
+ * @param prog - the program
+ * @param path - names of the commands from root to the command
+ * @param options - options for the pages
+ * @returns the man pages, keyed by file name
+ */
+export function makeManPages(
+  cmd: CommandBase,
+  prog: ManPageProgram,
+  path: string[],
+  options: ManPageOptions = {}
+): Record<string, string> {
+  const opts = { ...options, subCommandPages: true };
+  let pages = {
+    [`${pageName(prog, path)}.${opts.section ?? 1}`]: makeManPage(cmd, prog, path, opts)
+  };
+  for (const [name, subCmd] of Object.entries(cmd.visibleSubCmds)) {
+    pages = { ...pages, ...makeManPages(subCmd, prog, path.concat(name), opts) };
+  }
+  return pages;
+}
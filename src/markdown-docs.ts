@@ -0,0 +1,176 @@
+import { CommandBase } from "./command-base.ts";
+import { cbOrVal } from "./xtil.ts";
+
+/**
+ * Options for generating Markdown docs
+ */
+export type MarkdownDocsOptions = {
+  /** level of the headings for the commands, default `2` */
+  headingLevel?: number;
+};
+
+/**
+ * Escape text for a Markdown table cell
+ *
+ * @param text - the text
+ * @returns escaped text
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Make inline code for a Markdown table cell
+ *
+ * @param text - the text
+ * @returns the inline code, or empty if there's no text
+ */
+function code(text: string): string {
+  return text ? escapeCell(`\`${text}\``) : "";
+}
+
+/**
+ * Make a Markdown table
+ *
+ * @param header - titles of the columns
+ * @param rows - cells of the rows
+ * @returns the lines of the table
+ */
+function makeTable(header: string[], rows: string[][]): string[] {
+  return [header, header.map(() => "---")].concat(rows).map(cells => `| ${cells.join(" | ")} |`);
+}
+
+/**
+ * Get the anchor for the section of a command, ie: `myapp-remote-add`
+ *
+ * @param path - names of the program and the commands from root to the command
+ * @returns the anchor
+ */
+function anchor(path: string[]) {
+  return path
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]/g, "-");
+}
+
+/**
+ * Make the table of the arguments of a command
+ *
+ * @param cmd - the command
+ * @returns the lines of the table
+ */
+function makeArgsTable(cmd: CommandBase): string[] {
+  const argDefault: string[] = [].concat(cmd.spec.argDefault ?? []);
+  const rows = cmd.args.map((arg, ix) => [
+    code(arg.name || `${ix}`),
+    code(arg.variadic ? `${arg.type} ..` : arg.type),
+    arg.required ? "yes" : "no",
+    code(argDefault[ix] ?? ""),
+    (arg.choices || []).map(code).join(", ")
+  ]);
+  return makeTable(["Argument", "Type", "Required", "Default", "Choices"], rows);
+}
+
+/**
+ * Make the table of the options of a command
+ *
+ * @param cmd - the command
+ * @returns the lines of the table
+ */
+function makeOptionsTable(cmd: CommandBase): string[] {
+  const rows = cmd.options.visibleOptions.map(opt => {
+    const aliases = opt.help.split(", ").slice(1);
+    const type = opt.type || (opt.isCounting ? "count" : "boolean");
+    const argDefault = opt.spec.argDefault;
+    const hasDefault = argDefault !== undefined && argDefault !== null;
+    const tags = opt.makeConstraintsHelp();
+    const envName = opt.envName(cmd.ncConfig?.envPrefix);
+    if (envName) {
+      tags.push(`[env: ${envName}]`);
+    }
+    const desc = [(cbOrVal(opt.spec.desc) || "").trim()].concat(tags).filter(x => x);
+    return [
+      code(`--${opt.name}`),
+      aliases.map(code).join(", "),
+      code(type),
+      hasDefault ? code(JSON.stringify(argDefault)) : "",
+      escapeCell(desc.join(" "))
+    ];
+  });
+  return makeTable(["Option", "Aliases", "Type", "Default", "Description"], rows);
+}
+
+/**
+ * Make the section of a command and the sections of its sub commands, recursively
+ *
+ * @param cmd - the command
+ * @param path - names of the program and the commands from root to the command
+ * @param level - level of the heading
+ * @returns the lines of the sections
+ */
+function makeSection(cmd: CommandBase, path: string[], level: number): string[] {
+  const cmdText = path.join(" ");
+  const lines = [`<a id="${anchor(path)}"></a>`, "", `${"#".repeat(level)} ${cmdText}`, ""];
+
+  const desc = (cmd.desc || "").trim();
+  if (desc) {
+    lines.push(desc, "");
+  }
+
+  const alias = path.length > 1 ? cmd.alias.filter(x => x) : [];
+  if (alias.length > 0) {
+    lines.push(`Aliases: ${alias.map(a => `\`${a}\``).join(", ")}`, "");
+  }
+
+  const hasSubCommands = Object.keys(cmd.visibleSubCmds).length > 0;
+  const usage: string[] = [];
+  if (cmd.verbatimArgs || !hasSubCommands) {
+    usage.push([cmdText, cmd.verbatimArgs, "[options]"].filter(x => x).join(" "));
+  }
+  if (hasSubCommands) {
+    usage.push(`${cmdText} <command> [command-args] [options]`);
+  }
+  lines.push("**Usage:**", "", "```", ...usage, "```", "");
+
+  if (cmd.hasArgs) {
+    lines.push("**Arguments:**", "", ...makeArgsTable(cmd), "");
+  }
+
+  if (cmd.options.visibleOptions.length > 0) {
+    lines.push("**Options:**", "", ...makeOptionsTable(cmd), "");
+  }
+
+  if (hasSubCommands) {
+    lines.push("**Commands:**", "");
+    for (const [name, subCmd] of Object.entries(cmd.visibleSubCmds)) {
+      const subDesc = (subCmd.desc || "").trim().split("\n")[0];
+      const subPath = path.concat(name);
+      const link = `[\`${subPath.join(" ")}\`](#${anchor(subPath)})`;
+      lines.push(`- ${link}${subDesc ? ` - ${subDesc}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  for (const [name, subCmd] of Object.entries(cmd.visibleSubCmds)) {
+    lines.push(...makeSection(subCmd, path.concat(name), level));
+  }
+
+  return lines;
+}
+
+/**
+ * Generate Markdown docs for a command and all its sub commands, with a section for each
+ * command that has its usage, and tables of its arguments and options.
+ *
+ * @param cmd - the command
+ * @param path - names of the program and the commands from root to the command
+ * @param options - options for the docs
+ * @returns the Markdown docs
+ */
+export function makeMarkdownDocs(
+  cmd: CommandBase,
+  path: string[],
+  options: MarkdownDocsOptions = {}
+): string {
+  return makeSection(cmd, path, options.headingLevel ?? 2).join("\n");
+}
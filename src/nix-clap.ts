@@ -1,18 +1,63 @@
 import Path from "path";
-import { noop, setHelpZebra } from "./xtil.ts";
+import { noop, prefixOption, setHelpZebra, splitCommandLine } from "./xtil.ts";
 import EventEmitter from "events";
 import { Parser } from "./parser.ts";
-import { CommandBase, CommandSpec, unknownCommandBaseNoOptions } from "./command-base.ts";
+import {
+  CommandBase,
+  CommandExample,
+  CommandSpec,
+  unknownCommandBaseNoOptions
+} from "./command-base.ts";
 import { OptionSpec } from "./option-base.ts";
 import { CommandNode } from "./command-node.ts";
-import { isRootCommand, rootCommandName } from "./base.ts";
+import {
+  DeprecationNotice,
+  isRootCommand,
+  MissingRequiredOptionError,
+  NixClapError,
+  rootCommandName,
+  UnknownCliArgError,
+  UnknownOptionError
+} from "./base.ts";
 import { ClapNode } from "./clap-node.ts";
 import { unknownCommandBase } from "./command-base.ts";
 import { _PARENT } from "./symbols.ts";
 import { OptionNode } from "./option-node.ts";
+import {
+  COMPLETE_CMD,
+  COMPLETION_SHELLS,
+  CompletionShell,
+  CompletionTarget,
+  getCompletionCandidates,
+  makeCompletion,
+  makeCompletionTarget
+} from "./completion.ts";
+import { ConfigFileOptions, findConfigFiles, loadConfigFile } from "./config-file.ts";
+import { JSONSchema, makeJSONSchema } from "./json-schema.ts";
+import { makeManPage, makeManPages, ManPageOptions } from "./man-page.ts";
+import { makeMarkdownDocs, MarkdownDocsOptions } from "./markdown-docs.ts";
+import { ArgumentValue, OptionValue } from "./command-meta.ts";
+import { InferArgs, InferOpts } from "./typed-spec.ts";
+import { HelpModel, HelpRenderer, renderHelpJSON, renderHelpText } from "./help-model.ts";
+import { defaultTheme, detectColor, plainTheme, Theme } from "./theme.ts";
+import { expandResponseFiles } from "./response-file.ts";
 
 const HELP = Symbol("help");
 
+/**
+ * An example of a command that doesn't parse, from `verifyExamples`
+ */
+export type ExampleFailure = {
+  /** names of the commands from root to the command that has the example */
+  cmdPath: string[];
+  /** the example */
+  example: CommandExample;
+  /** the words of the example that were parsed, without the program name */
+  argv: string[];
+  /** the errors from parsing the example */
+  errors: Error[];
+};
+
 /**
  * Writes the given string to the standard output.
  *
@@ -22,6 +67,15 @@ export const defaultOutput = (s: string) => {
   process.stdout.write(s);
 };
 
+/**
+ * Writes the given string to the standard error.
+ *
+ * @param s - The string to be written to the standard error.
+ */
+export const defaultWarn = (s: string) => {
+  process.stderr.write(s);
+};
+
 /**
  * Sets the process exit code without forcing immediate termination.
  * This allows stdout to flush properly before the process ends naturally.
@@ -54,8 +108,10 @@ export const defaultExit = (code: number) => {
  * In case you need to do some processing before invoking the `exec` handlers, you can set this flag
  * and call the `runExec` method yourself.
  * @property {any} [output] - Function to output text. Default is write to stdout.
+ * @property {any} [warn] - Function to output warnings. Default is write to stderr.
  * @property {any} [handlers] - Custom event handlers.
  * @property {(code: number) => void} [exit] - Custom exit function. Default is to emit the `exit` event.
+ * @property {boolean | string} [completion] - Add a built-in command that prints shell completion script.
  */
 export type NixClapConfig = {
   /**
@@ -141,6 +197,12 @@ export type NixClapConfig = {
    * Default is write the stdout.
    */
   output?: (text: string) => void;
+  /**
+   * function to output warnings, so they don't mix with the output
+   *
+   * Default is write the stderr.
+   */
+  warn?: (text: string) => void;
   /**
    * Custom event handlers
    */
@@ -169,6 +231,76 @@ export type NixClapConfig = {
    * Default is `false` (throws error if duplicate option names are found).
    */
   allowDuplicateOption?: boolean;
+  /**
+   * Set to `true` to allow long options and commands to be abbreviated to any unique prefix,
+   * ie: `--verb` for `--verbose` and `bui` for `build`.  A prefix that matches more than one
+   * causes an `AmbiguousMatchError` that lists all candidates.
+   */
+  allowAbbreviation?: boolean;
+  /**
+   * Prefix for generating the environment variable names of options that set `env: true`,
+   * ie: `MYAPP` makes `MYAPP_LOG_LEVEL` for option `log-level`.
+   */
+  envPrefix?: string;
+  /**
+   * Set to `true` to add a built-in `completion` command that prints the shell completion
+   * script, ie: `prog completion zsh`.  Set to a string to use it as the command's name.
+   *
+   * If shell is not specified, it's detected from the `SHELL` environment variable, and
+   * falls back to `bash`.
+   *
+   * This also enables the hidden `__complete` command that the completion scripts invoke
+   * to get dynamic candidates from the `complete` callbacks of options and commands.
+   */
+  completion?: boolean | string;
+  /**
+   * Set to `true` or options to discover config files and apply them to the parsed options,
+   * with source `user`, before required options are checked.
+   *
+   * With program name `myapp`, the key `myapp` in `package.json`, `.myapprc`, and `.myapprc.json`
+   * are searched in the directories from cwd up to the root, and then the home directory.  Files
+   * closer to cwd have higher precedence, and values from command line or env always win.
+   *
+   * A `--config <path>` option is added to use a specific file instead.
+   */
+  configFile?: boolean | ConfigFileOptions;
+  /**
+   * Set to `true` to add a `--help-all` option that shows help including the hidden options
+   * and commands, ie: `prog --help-all build`.  Set to a string to use it as the option's name.
+   */
+  helpAll?: boolean | string;
+  /**
+   * Order of the option sections in help, by the `group` of the options, ie:
+   * `["Network", "Options"]`.  Use `"Options"` for options without a group, and
+   * `"Global Options"` for options inherited from parent commands.
+   *
+   * Sections not listed follow in the order their first option is defined, with
+   * `"Global Options"` last.
+   */
+  optionGroupOrder?: string[];
+  /**
+   * Renderers of the help model, by name, to add to the built-in `text` and `json` ones, ie:
+   * `{ themed: model => [...] }` for `--help=themed`.  Set `text` to replace the default
+   * help output.
+   */
+  helpRenderers?: Record<string, HelpRenderer>;
+  /**
+   * Set to `true` to use colors in help and error messages with the default theme, or to the
+   * styles to replace in the default theme, ie: `{ heading: s => chalk.underline(s) }`.
+   *
+   * Colors are used if the output is a TTY, and the `NO_COLOR` and `FORCE_COLOR` environment
+   * variables are respected.  A `--color` option is added to turn them on, or off with
+   * `--no-color`.
+   */
+  theme?: boolean | Partial<Theme>;
+  /**
+   * Set to `true` to replace an arg `@file` with the args in the file, ie: `prog build @files.txt`.
+   *
+   * Each line of the file is split into args like a shell.  Files can refer to other files, and
+   * relative paths are resolved from cwd.  Args after `--` are not expanded.  Errors caused by
+   * args from a file have its name and the line number in their messages.
+   */
+  responseFiles?: boolean;
 };
 
 /**
@@ -181,14 +313,21 @@ export type NixClapConfig = {
  * @property {string[]} argv - Array of all arguments passed to the command.
  * @property {number} index - The current index in the argument list, in case not everything was consumed.
  */
-export type ParseResult = {
+export type ParseResult<
+  O extends Record<string, any> = Record<string, OptionValue>,
+  A extends Record<string, any> = Record<string, ArgumentValue>
+> = {
   errorNodes?: ClapNode[];
-  command: CommandNode;
+  command: CommandNode<O, A>;
   execCmd?: CommandNode;
   /**
    * The command node where --help was specified (set by _checkFailures when help is requested)
    */
   helpNode?: CommandNode;
+  /**
+   * Set when help was requested with the `helpAll` option, to show the hidden options and commands
+   */
+  helpAll?: boolean;
   _: string[];
   argv: string[];
   index: number;
@@ -209,11 +348,18 @@ export type ParseResult = {
  * @event post-help - Emitted after displaying help.
  * @event parse-fail - Emitted when parsing fails.
  * @event no-action - Emitted when no command is given.
+ * @event deprecated - Emitted for each deprecated option, command or alias used.
  * @event exit - Emitted when the application is about to exit.
  *
+ * @template O - type of the root command's options, inferred from the spec given to `init2`
+ * @template A - type of the root command's arguments, inferred from the spec given to `init2`
+ *
  * @public
  */
-export class NixClap extends EventEmitter {
+export class NixClap<
+  O extends Record<string, any> = Record<string, OptionValue>,
+  A extends Record<string, any> = Record<string, ArgumentValue>
+> extends EventEmitter {
   /**
    * @private
    * @property {string} _name - The name associated with the instance.
@@ -222,6 +368,12 @@ export class NixClap extends EventEmitter {
   private _version: string | number | false;
   private _versionAlias: string;
   private _helpOpt: OptionSpec | false;
+  private _configFileOpt?: string;
+  private _completionCmd?: string;
+  private _helpAllOpt?: string;
+  private _helpRenderers: Record<string, HelpRenderer>;
+  private _colorOpt?: string;
+  private _color?: boolean;
   private _usage: string;
   private _cmdUsage: string;
   private exit: (code: number) => void;
@@ -229,6 +381,10 @@ export class NixClap extends EventEmitter {
    * Represents the output of the process.
    */
   output: (s: string) => void;
+  /**
+   * Outputs the warnings of the process.
+   */
+  warn: (s: string) => void;
   private _evtHandlers: Record<string, ((parsed?: ParseResult) => void | Promise<void>) | false>;
   private _skipExec: boolean;
   private _skipExecDefault: boolean;
@@ -256,6 +412,8 @@ export class NixClap extends EventEmitter {
 
     this._versionAlias = config.versionAlias;
 
+    this._helpRenderers = { text: renderHelpText, json: renderHelpJSON, ...config.helpRenderers };
+
     this._helpOpt = config.hasOwnProperty("help")
       ? config.help
       : ({
@@ -273,6 +431,7 @@ export class NixClap extends EventEmitter {
     this._cmdUsage = config.cmdUsage || "$0 $1";
     this.exit = config.exit || (n => this.emit("exit", n));
     this.output = config.output || defaultOutput;
+    this.warn = config.warn || defaultWarn;
     this._evtHandlers = config.noDefaultHandlers
       ? {}
       : {
@@ -284,8 +443,15 @@ export class NixClap extends EventEmitter {
             let helpCmdPath: string[] | undefined;
 
             // Check for --help cmd1 cmd2... syntax
-            const helpArgs = parsed.command.optNodes?.help?.argsMap?.cmds as string[] | undefined;
-            if (helpArgs && helpArgs.length > 0) {
+            const helpOptName = parsed.helpAll ? this._helpAllOpt : "help";
+            const getHelpArgs = (node?: CommandNode): string[] =>
+              [].concat(node?.optNodes?.[helpOptName]?.argsMap?.cmds || []);
+            const helpArgs = getHelpArgs(parsed.command);
+            // Check for --help=<format>, ie: --help=json, which can also be given to a sub command
+            const format =
+              this._shiftHelpFormat(helpArgs) ||
+              this._shiftHelpFormat(getHelpArgs(parsed.helpNode));
+            if (helpArgs.length > 0) {
               helpCmdPath = helpArgs;
             } else if (parsed.helpNode && !isRootCommand(parsed.helpNode.alias)) {
               // Build command path from helpNode up to (but not including) root
@@ -299,12 +465,14 @@ export class NixClap extends EventEmitter {
 
             /* c8 ignore next */
             // Don't pass errors when user explicitly requested --help
-            this.showHelp(undefined, helpCmdPath);
+            this.showHelp(undefined, helpCmdPath, parsed.helpAll, format);
           },
           "post-help": noop,
           version: () => this.showVersion(),
           "parse-fail": parsed => this.showError(parsed.command.getErrorNodes()[0].error),
-          "no-action": () => this.showHelp(new Error("No command given"))
+          "no-action": () => this.showHelp(new NixClapError("No command given", "MISSING_COMMAND")),
+          deprecated: (notice: unknown) =>
+            this.warn(`Warning: ${(notice as DeprecationNotice).message}\n`)
           // "new-command": noop,
         };
 
@@ -365,8 +533,9 @@ export class NixClap extends EventEmitter {
    *
    * This method enables configuration hierarchy where:
    * 1. Command line arguments have the highest priority (source: "cli")
-   * 2. User config (from files/settings) has medium priority (source: "user")
-   * 3. Defaults have the lowest priority (source: "default")
+   * 2. Environment variables bound with `env` come next (source: "env")
+   * 3. User config (from files/settings) has medium priority (source: "user")
+   * 4. Defaults have the lowest priority (source: "default")
    *
    * For example, you can load options from package.json or user config files and apply them after CLI parsing,
    * but they won't override any options the user explicitly provided on the command line.
@@ -388,12 +557,72 @@ export class NixClap extends EventEmitter {
   applyConfig(
     config: Record<string, any>,
     parsed: ParseResult,
-    src: "cli" | "user" | "default" = "user"
+    src: "cli" | "env" | "user" | "default" = "user"
   ) {
     parsed.command.applyConfig(config, src);
     return this;
   }
 
+  /**
+   * Make the spec for the built-in command that prints shell completion script
+   */
+  private _getCompletionCmd(): CommandSpec {
+    return {
+      desc: `Generate shell completion script (${COMPLETION_SHELLS.join(", ")})`,
+      args: "[shell string]",
+      exec: cmd => {
+        const shell = (cmd.args.shell as string) || Path.basename(process.env.SHELL || "bash");
+        if (COMPLETION_SHELLS.includes(shell as CompletionShell)) {
+          this.output(this.makeCompletion(shell as CompletionShell));
+        } else {
+          this.showError(new Error(`Unsupported shell '${shell}' for completion`));
+        }
+      }
+    };
+  }
+
+  /**
+   * Get the options for config files with defaults filled, or `undefined` if not enabled
+   */
+  private _getConfigFileOptions(): ConfigFileOptions {
+    const cf = this._config.configFile;
+    if (cf) {
+      return { option: "config", ...(cf === true ? {} : cf) };
+    }
+    return undefined;
+  }
+
+  /**
+   * Load config files and apply them to the parsed command.  Errors loading the files are added
+   * to the root command node.
+   *
+   * @param command - root command node from parsing
+   */
+  private _applyConfigFiles(command: CommandNode) {
+    const cf = this._getConfigFileOptions();
+    if (!cf) {
+      return;
+    }
+
+    const name = cf.name || this._rootCommand.name;
+    const cwd = cf.cwd || process.cwd();
+    const optNode = this._configFileOpt && command.optNodes[this._configFileOpt];
+    const files = optNode
+      ? [Path.resolve(cwd, optNode.argsList[0])]
+      : findConfigFiles(name, cwd, cf.home);
+
+    for (const file of files) {
+      try {
+        const config = loadConfigFile(file, name);
+        if (config) {
+          command.applyConfig(config, "user", file);
+        }
+      } catch (err) {
+        command.addError(err);
+      }
+    }
+  }
+
   /**
    * Recursively adds help option to all subcommands.
    * Filters out help aliases that conflict with existing options in the subcommand.
@@ -442,10 +671,16 @@ export class NixClap extends EventEmitter {
    *
    * The root command is a CommandSpec, with its options and subCommands defined inline.
    *
-   * @param rootCommandSpec - Complete specification for the root command including options and subCommands
+   * The types of the root command's options and arguments in the parse result are inferred
+   * from the spec, which can also be declared `as const`.
+   *
+   * @param spec - Complete specification for the root command including options and subCommands
    * @returns this
    */
-  init2(rootCommandSpec: CommandSpec = {}) {
+  init2<const S extends CommandSpec = CommandSpec>(
+    spec: S = {} as S
+  ): NixClap<InferOpts<S["options"]>, InferArgs<S["args"]>> {
+    const rootCommandSpec: CommandSpec = spec;
     let options = rootCommandSpec.options || {};
     const commands = { ...rootCommandSpec.subCommands };
 
@@ -460,6 +695,23 @@ export class NixClap extends EventEmitter {
       options.version = this._getVersionOpt(verAlias);
     }
 
+    // Add option to specify config file if enabled
+    const cfOptName = this._getConfigFileOptions()?.option;
+    if (cfOptName && !options.hasOwnProperty(cfOptName)) {
+      options = { ...options, [cfOptName]: { args: "<path string>", desc: "Path to config file" } };
+      this._configFileOpt = cfOptName;
+    }
+
+    // Add built-in completion command if enabled
+    if (this._config.completion) {
+      const name =
+        typeof this._config.completion === "string" ? this._config.completion : "completion";
+      if (!commands.hasOwnProperty(name)) {
+        commands[name] = this._getCompletionCmd();
+        this._completionCmd = name;
+      }
+    }
+
     // Add help option if configured
     if (this._helpOpt) {
       options = { ...options };
@@ -469,6 +721,30 @@ export class NixClap extends EventEmitter {
       this._addHelpToSubCommands(commands);
     }
 
+    // Add option to turn colors on or off if theme is enabled
+    if (this._config.theme && !options.hasOwnProperty("color")) {
+      options = {
+        ...options,
+        color: { desc: "Use colors in help and error messages, --no-color to turn off" }
+      };
+      this._colorOpt = "color";
+    }
+
+    // Add option to show help with the hidden options and commands if enabled
+    if (this._config.helpAll) {
+      const name = typeof this._config.helpAll === "string" ? this._config.helpAll : "help-all";
+      if (!options.hasOwnProperty(name)) {
+        options = {
+          ...options,
+          [name]: {
+            args: "[cmds string..]",
+            desc: "Show help, including hidden options and commands"
+          }
+        };
+        this._helpAllOpt = name;
+      }
+    }
+
 
     this._options = options;
     this._commands = commands;
@@ -483,6 +759,14 @@ export class NixClap extends EventEmitter {
       exec: rootCommandSpec.exec,
       usage: rootCommandSpec.usage,
       customTypes: rootCommandSpec.customTypes,
+      complete: rootCommandSpec.complete,
+      exclusiveGroups: rootCommandSpec.exclusiveGroups,
+      min: rootCommandSpec.min,
+      max: rootCommandSpec.max,
+      integer: rootCommandSpec.integer,
+      validate: rootCommandSpec.validate,
+      examples: rootCommandSpec.examples,
+      epilog: rootCommandSpec.epilog,
       options: options,
       subCommands: commands,
       allowUnknownOption: rootCommandSpec.allowUnknownOption ?? this._config.allowUnknownOption
@@ -499,7 +783,7 @@ export class NixClap extends EventEmitter {
     unknownCommandBaseNoOptions.ncConfig = this._config;
     unknownCommandBaseNoOptions.parent = this._rootCommand;
 
-    return this;
+    return this as unknown as NixClap<InferOpts<S["options"]>, InferArgs<S["args"]>>;
   }
 
   /**
@@ -578,17 +862,20 @@ export class NixClap extends EventEmitter {
   }
 
   /**
-   * Generates help text for the specified command or the root command if no command name is provided.
+   * Builds the help model of the specified command or the root command if no command name is
+   * provided, for a `HelpRenderer` to lay out.
    *
-   * @param cmdPath - The command name or path (array) to generate help for. If not provided, help for the root command is generated.
-   * @returns An array of strings representing the help text.
+   * @param cmdPath - The command name or path (array) to make the model for.
+   * @param showHidden - Also include the hidden options and commands.
+   * @returns The help model
+   * @throws Error if the CLI is not initialized or a command in the path is unknown
    */
-  makeHelp(cmdPath?: string | string[]) {
+  makeHelpModel(cmdPath?: string | string[], showHidden = false): HelpModel {
     let cmd = this._rootCommand;
 
     // Guard against uninitialized CLI
     if (!cmd) {
-      return ["Error: CLI not initialized. Call init() or init2() first."];
+      throw new Error("CLI not initialized. Call init() or init2() first.");
     }
 
     // Normalize cmdPath to array
@@ -602,15 +889,16 @@ export class NixClap extends EventEmitter {
     for (const cmdName of cmdNames) {
       const matched = cmd.matchSubCommand(cmdName);
       if (!matched.cmd) {
-        return [`Unknown command: ${cmdName}`];
+        throw new Error(`Unknown command: ${cmdName}`);
       }
       cmd = matched.cmd;
     }
 
     // For display purposes, use the last command name in path
     const cmdName = cmdNames.length > 0 ? cmdNames[cmdNames.length - 1] : undefined;
+    const progName = this._name || "";
 
-    const usage = [""];
+    const usage: string[] = [];
     let usageMsg: string;
 
     // For root command showing help, prefer custom usage over cmdUsage
@@ -625,8 +913,6 @@ export class NixClap extends EventEmitter {
     }
 
     if (usageMsg) {
-      const progName = this._name || "";
-
       // Check if we need two-line usage (root command has both args and sub-commands)
       const hasRootArgs = isRootCommand(cmd.alias[0]) && cmd.verbatimArgs;
       const hasSubCommands = cmd.subCmdCount > 0;
@@ -634,50 +920,314 @@ export class NixClap extends EventEmitter {
       if (hasRootArgs && hasSubCommands && !cmdName) {
         // Two-line usage format: show both root command args and sub-command usage
         // First line: use custom usage (for root command with args)
-        const rootUsage = usageMsg.replace("$0", progName);
         // Don't replace $1 for root usage - it's meant for command name when showing sub-command help
-        usage.push(`Usage: ${rootUsage}`.trim());
+        usage.push(usageMsg.replace("$0", progName));
         // Second line: show sub-command usage pattern
-        usage.push(`  ${progName} <command> [command-args] [options]`, "");
+        usage.push(`${progName} <command> [command-args] [options]`);
       } else if (hasRootArgs && !hasSubCommands && !cmdName && usageMsg === "$0") {
         // Root command with args but no custom usage and no sub-commands
         // Generate usage from args
-        usage.push(`Usage: ${progName} ${cmd.verbatimArgs}`.trim(), "");
+        usage.push(`${progName} ${cmd.verbatimArgs}`);
       } else if (!hasRootArgs && hasSubCommands && !cmdName && usageMsg === "$0") {
         // Only sub-commands, no root args, no custom usage
         // Show <command> placeholder
-        usage.push(`Usage: ${progName} <command>`.trim(), "");
+        usage.push(`${progName} <command>`);
       } else {
         // Standard single-line usage
-        usageMsg = usageMsg.replace("$0", progName).replace("$1", cmdName || "<command>");
-        usage.push(`Usage: ${usageMsg}`.trim(), "");
+        usage.push(usageMsg.replace("$0", progName).replace("$1", cmdName || "<command>"));
       }
+    }
 
-      if (cmd.desc) {
-        usage.push(`  ${cmd.desc}`);
-      }
-      if (cmdName && cmd.name !== cmdName) {
-        usage.push(`Command '${cmdName}' is alias for '${cmd.name}'`);
+    const epilog = (cmd.epilog || "").trim();
+
+    return {
+      program: progName,
+      cmdPath: cmdNames,
+      usage,
+      desc: cmd.desc || undefined,
+      aliasOf: cmdName && cmd.name !== cmdName ? cmd.name : undefined,
+      commands: cmd.makeHelpEntries(undefined, showHidden),
+      groups: cmd.options.makeHelpGroups(
+        cmd.globalOptions,
+        this._config.optionGroupOrder,
+        showHidden
+      ),
+      examples: cmd.examples.map(example => ({
+        cmd: example.cmd.replace(/\$0/g, progName),
+        desc: example.desc
+      })),
+      epilog: epilog ? epilog.replace(/\$0/g, progName) : undefined
+    };
+  }
+
+  /**
+   * Generates help text for the specified command or the root command if no command name is provided.
+   *
+   * @param cmdPath - The command name or path (array) to generate help for. If not provided, help for the root command is generated.
+   * @param showHidden - Also show the hidden options and commands.
+   * @param format - Name of the help renderer, like `text` or `json`, or a renderer function.
+   * @returns An array of strings representing the help text.
+   */
+  makeHelp(
+    cmdPath?: string | string[],
+    showHidden = false,
+    format: string | HelpRenderer = "text"
+  ) {
+    // Guard against uninitialized CLI
+    if (!this._rootCommand) {
+      return ["Error: CLI not initialized. Call init() or init2() first."];
+    }
+
+    let model: HelpModel;
+    try {
+      model = this.makeHelpModel(cmdPath, showHidden);
+    } catch (err) {
+      model = {
+        program: this._name || "",
+        cmdPath: ([] as string[]).concat(cmdPath),
+        usage: [],
+        commands: [],
+        groups: [],
+        examples: [],
+        error: err.message
+      };
+    }
+
+    const renderer = typeof format === "function" ? format : this._helpRenderers[format];
+    if (!renderer) {
+      return [`Unknown help format: ${format}`];
+    }
+
+    return renderer(model, this.getTheme());
+  }
+
+  /**
+   * Get the theme for help and error messages.  It has no styles if `theme` is not set in the
+   * config, or colors are off by `--no-color` or detection from the environment.
+   *
+   * @returns The theme
+   */
+  getTheme(): Theme {
+    const theme = this._config.theme;
+    if (!theme || !(this._color ?? detectColor())) {
+      return plainTheme;
+    }
+    return theme === true ? defaultTheme : { ...defaultTheme, ...theme };
+  }
+
+  /**
+   * Generates a shell completion script from the command tree.
+   *
+   * The script knows about sub commands, command and option aliases, the `--no-` form of
+   * flags, and the values for boolean option arguments.
+   *
+   * @param shell - The shell to generate the script for: `bash`, `zsh`, or `fish`
+   * @returns The completion script
+   */
+  makeCompletion(shell: CompletionShell): string {
+    if (!this._rootCommand) {
+      throw new Error("CLI not initialized. Call init() or init2() first.");
+    }
+
+    return makeCompletion(shell, this._name || "program", this._rootCommand);
+  }
+
+  /**
+   * Generates a JSON Schema (draft-07) for the option object of the root command, as it's
+   * accepted by `applyConfig` and config files, with sub commands as nested properties.
+   *
+   * Built-in options and commands, like `help`, `version` and `completion`, are left out, and
+   * the root allows a `$schema` key that's not an option.
+   *
+   * @returns The JSON Schema
+   */
+  toJSONSchema(): JSONSchema {
+    if (!this._rootCommand) {
+      throw new Error("CLI not initialized. Call init() or init2() first.");
+    }
+
+    const schema = makeJSONSchema(this._rootCommand, {
+      rootOptions: [
+        this._version && "version",
+        this._configFileOpt,
+        this._helpAllOpt,
+        this._colorOpt
+      ].filter(x => x),
+      options: this._helpOpt ? ["help"] : [],
+      commands: [this._completionCmd].filter(x => x)
+    });
+    // config files can point editors to the schema with the `$schema` key
+    schema.properties.$schema = { type: "string" };
+
+    return {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      title: this._name,
+      ...schema
+    };
+  }
+
+  /**
+   * Find a command by its path, with aliases resolved to the names of the commands
+   *
+   * @param cmdPath - The command name or path (array), root command if not provided
+   * @returns The command and the names from root to it
+   */
+  private _findCommand(cmdPath?: string | string[]) {
+    if (!this._rootCommand) {
+      throw new Error("CLI not initialized. Call init() or init2() first.");
+    }
+
+    let cmd = this._rootCommand;
+    const path: string[] = [];
+    for (const cmdName of [].concat(cmdPath || [])) {
+      const matched = cmd.matchSubCommand(cmdName);
+      if (!matched.cmd) {
+        throw new Error(`Unknown command: ${cmdName}`);
       }
+      cmd = matched.cmd;
+      path.push(matched.name);
     }
 
-    const commandsHelp = cmd.subCmdCount > 0 ? ["Commands:"].concat(cmd.makeHelp()) : [];
+    return { cmd, path };
+  }
+
+  /**
+   * Generates the man page of a command, in roff, with NAME, SYNOPSIS, DESCRIPTION, OPTIONS,
+   * COMMANDS and EXAMPLES sections.
+   *
+   * @param cmdPath - The command name or path (array) to generate the page for. If not
+   *   provided, the page for the root command is generated.
+   * @param options - Options for the page, like `section` and `subCommandPages`
+   * @returns The man page
+   */
+  makeManPage(cmdPath?: string | string[], options?: ManPageOptions): string {
+    const { cmd, path } = this._findCommand(cmdPath);
+    const prog = { name: this._name || "program", version: this._version };
+    return makeManPage(cmd, prog, path, options);
+  }
 
-    const makeOptionsHelp = () => {
-      const options = cmd.options.makeHelp();
+  /**
+   * Generates man pages for the root command and each sub command, git-style, ie:
+   * `myapp.1`, `myapp-build.1` and `myapp-remote-add.1`.
+   *
+   * @param options - Options for the pages, like `section`
+   * @returns The man pages, keyed by file name
+   */
+  makeManPages(options?: ManPageOptions): Record<string, string> {
+    const { cmd, path } = this._findCommand();
+    const prog = { name: this._name || "program", version: this._version };
+    return makeManPages(cmd, prog, path, options);
+  }
 
-      if (options && options.length) {
-        return ["", "Options:"].concat(options);
+  /**
+   * Generates Markdown reference docs for the whole command tree, with a section for each
+   * command that has its usage, tables of its arguments and options, and links to its
+   * sub commands.
+   *
+   * @param options - Options for the docs, like `headingLevel`
+   * @returns The Markdown docs
+   */
+  makeMarkdownDocs(options?: MarkdownDocsOptions): string {
+    const { cmd } = this._findCommand();
+    return makeMarkdownDocs(cmd, [this._name || "program"], options);
+  }
+
+  /**
+   * Parses the examples of all the commands against the current spec, without running any
+   * `exec` handlers or emitting events, to catch examples that no longer work.
+   *
+   * The leading `$0` or program name of an example is skipped.  Only the example and the spec
+   * are checked, so environment variables, config files, response files and `validate`
+   * callbacks are not used.
+   *
+   * @returns The examples that failed to parse, with their errors.  Empty if all of them parse.
+   */
+  verifyExamples(): ExampleFailure[] {
+    const { cmd } = this._findCommand();
+    const failures: ExampleFailure[] = [];
+
+    const verify = (cmdBase: CommandBase, cmdPath: string[]) => {
+      for (const example of cmdBase.examples) {
+        const argv = splitCommandLine(example.cmd);
+        if (argv[0] === "$0" || argv[0] === this._name) {
+          argv.shift();
+        }
+        const { command } = new Parser(this).parse(argv, 0);
+        this._checkCommand(command);
+        const errorNodes = command.getErrorNodes();
+        if (errorNodes.length > 0) {
+          const errors = errorNodes.flatMap(node => node.errors);
+          failures.push({ cmdPath, example, argv, errors });
+        }
       }
-      /* c8 ignore next 3 */ // Subcommands now have help option added automatically
-      if (cmd.name && !isRootCommand(cmd.alias[0])) {
-        return [`Command ${cmd.name} has no options`];
+      for (const [name, subCmd] of Object.entries(cmdBase.subCmdsBase)) {
+        verify(subCmd, cmdPath.concat(name));
       }
-      return [];
     };
 
-    const helpText = usage.concat(commandsHelp, makeOptionsHelp());
-    return helpText;
+    verify(cmd, []);
+    return failures;
+  }
+
+  /**
+   * Find out what the last word of a partial command line is expected to be.
+   *
+   * The words before the last one are parsed, and the state of the parser determines if the
+   * last word is a sub command, an option name, or an argument for an option or command.
+   *
+   * @param words - The words after the program name, the last one is being completed
+   * @returns The completion target
+   */
+  getCompletionTarget(words: string[]): CompletionTarget {
+    const parser = new Parser(this, true);
+    parser.parse(words.slice(0, -1), 0);
+    return makeCompletionTarget(words, parser.pending);
+  }
+
+  /**
+   * Get the completion candidates for the last word of a partial command line.
+   *
+   * The `complete` callbacks of options and commands are invoked and awaited for the
+   * dynamic candidates.
+   *
+   * @param words - The words after the program name, the last one is being completed
+   * @returns Promise resolving to the candidates
+   */
+  complete(words: string[]): Promise<string[]> {
+    return getCompletionCandidates(this.getCompletionTarget(words));
+  }
+
+  /**
+   * Handle the hidden `__complete` command, if it's enabled and argv is invoking it.
+   * The candidates are written to output one per line.
+   *
+   * @param argv - The array of command-line arguments.
+   * @param start - The index to start parsing from.
+   * @returns The parse result for the partial command line and a promise for the output
+   * being written, or `undefined` if argv is not invoking `__complete`.
+   */
+  private _runComplete(
+    argv: string[] | undefined,
+    start = 0
+  ): { parsed: ParseResult; done: Promise<void> } | undefined {
+    if (argv === undefined) {
+      argv = process.argv;
+      start = 2;
+    }
+
+    if (!this._config.completion || argv[start] !== COMPLETE_CMD) {
+      return undefined;
+    }
+
+    const target = this.getCompletionTarget(argv.slice(start + 1));
+    const done = getCompletionCandidates(target).then(
+      candidates => this.output(candidates.map(c => `${c}\n`).join("")),
+      // completion should fail quietly, without messing up the user's shell
+      noop
+    );
+
+    const command = target.command.rootCmd;
+    return { parsed: { command, argv, errorNodes: [], _: [], index: argv.length }, done };
   }
 
   /**
@@ -685,14 +1235,16 @@ export class NixClap extends EventEmitter {
    *
    * @param err - Optional error to display along with help
    * @param cmdPath - Optional command name or path (array) to show help for
+   * @param showHidden - Also show the hidden options and commands
+   * @param format - Name of the help renderer, default `text`
    * @returns
    */
-  showHelp(err?, cmdPath?: string | string[]) {
+  showHelp(err?, cmdPath?: string | string[], showHidden = false, format = "text") {
     this.emit("pre-help", { self: this });
-    this.output(`${this.makeHelp(cmdPath).join("\n")}\n`);
+    this.output(`${this.makeHelp(cmdPath, showHidden, format).join("\n")}\n`);
     let code = 0;
     if (err) {
-      this.output(`\nError: ${err.message}\n`);
+      this.output(`\n${this.getTheme().error(`Error: ${err.message}`)}\n`);
       code = 1;
     }
     this.output("\n");
@@ -704,11 +1256,21 @@ export class NixClap extends EventEmitter {
    * Shows an error message without displaying full help text.
    * Outputs a hint to use --help for more information.
    *
+   * If the error is about an unknown option or command and has suggestions, they are shown
+   * after the message.
+   *
    * @param err - The error to display
    * @returns
    */
   showError(err: Error) {
-    this.output(`Error: ${err.message}\n`);
+    this.output(`${this.getTheme().error(`Error: ${err.message}`)}\n`);
+    if (err instanceof UnknownOptionError || err instanceof UnknownCliArgError) {
+      const names =
+        err instanceof UnknownOptionError ? err.suggestions.map(prefixOption) : err.suggestions;
+      if (names.length > 0) {
+        this.output(`Did you mean ${names.join(" or ")}?\n`);
+      }
+    }
     this.output(`${this._name || "program"} --help for more info\n`);
     return this.exit(1);
   }
@@ -733,8 +1295,14 @@ export class NixClap extends EventEmitter {
    * If there are no failures and `_skipExec` is not set, it proceeds to execute the
    * parsed result by calling `runExec`.
    */
-  parse(argv?: string[], start?: number): ParseResult {
+  parse(argv?: string[], start?: number): ParseResult<O, A> {
+    const completing = this._runComplete(argv, start);
+    if (completing) {
+      return completing.parsed as ParseResult<O, A>;
+    }
+
     const parsed = this.parse2(argv, start);
+    this._emitDeprecations(parsed);
 
     if (this._checkFailures(parsed)) {
       return parsed;
@@ -750,12 +1318,27 @@ export class NixClap extends EventEmitter {
   /**
    * Parses the given command-line arguments asynchronously.
    *
+   * Async `validate` callbacks of options and commands are awaited before checking for failures.
+   *
    * @param argv - Optional array of arguments to parse
    * @param start - Optional starting index for parsing
    * @returns Promise resolving to the parse result
    */
-  async parseAsync(argv?: string[], start?: number): Promise<ParseResult> {
-    const parsed = this.parse2(argv, start);
+  async parseAsync(argv?: string[], start?: number): Promise<ParseResult<O, A>> {
+    const completing = this._runComplete(argv, start);
+    if (completing) {
+      await completing.done;
+      return completing.parsed as ParseResult<O, A>;
+    }
+
+    const pending: Promise<void>[] = [];
+    const parsed = this.parse2(argv, start, pending);
+    if (pending.length > 0) {
+      await Promise.all(pending);
+      parsed.errorNodes = parsed.command.getErrorNodes();
+      this._addErrorInfo(parsed.errorNodes);
+    }
+    this._emitDeprecations(parsed);
 
     if (this._checkFailures(parsed)) {
       return parsed;
@@ -768,6 +1351,24 @@ export class NixClap extends EventEmitter {
     return parsed;
   }
 
+  /**
+   * Take the help format from the args of the help option, if the first arg is the name of a
+   * help renderer and not a top level command.
+   *
+   * @param helpArgs - args of the help option, the format is removed from it
+   * @returns name of the help renderer, or `undefined` if the first arg is not one
+   */
+  private _shiftHelpFormat(helpArgs: string[]): string | undefined {
+    const name = helpArgs[0];
+    if (
+      this._helpRenderers.hasOwnProperty(name) &&
+      !this._rootCommand.matchSubCommand(name, false).cmd
+    ) {
+      return helpArgs.shift();
+    }
+    return undefined;
+  }
+
   /**
    * Recursively find a command node that has --help specified via CLI.
    * Returns the command node where help was requested, or undefined if not found.
@@ -786,12 +1387,30 @@ export class NixClap extends EventEmitter {
     return undefined;
   }
 
+  /**
+   * Emit the `deprecated` event for each deprecated command, option or alias that user entered
+   *
+   * @param parsed - the parse result
+   */
+  private _emitDeprecations(parsed: ParseResult) {
+    for (const notice of parsed.command.getDeprecations()) {
+      this.emit("deprecated", notice);
+    }
+  }
+
   /**
    *
    * @param parsed
    * @returns
    */
   _checkFailures(parsed: ParseResult): boolean {
+    // check if user turned colors on or off with --color or --no-color
+    if (this._colorOpt) {
+      const meta = parsed.command.jsonMeta;
+      this._color =
+        meta.source[this._colorOpt] === "cli" ? meta.opts[this._colorOpt] === true : undefined;
+    }
+
     // check if user specified --help anywhere in the command tree
     // (check before errors so help works even with missing required args)
     if (this._helpOpt && this._helpOpt[HELP]) {
@@ -804,6 +1423,18 @@ export class NixClap extends EventEmitter {
       }
     }
 
+    // check if user specified the option to show help with the hidden options and commands
+    if (this._helpAllOpt && parsed.command.optNodes[this._helpAllOpt]?.source === "cli") {
+      let helpNode = parsed.command;
+      while (Object.keys(helpNode.subCmdNodes).length > 0) {
+        helpNode = Object.values(helpNode.subCmdNodes)[0];
+      }
+      parsed.helpNode = helpNode;
+      parsed.helpAll = true;
+      this.emit("help", parsed);
+      return true;
+    }
+
     // check if user specified --version, to show version and exit
     if (this._version && parsed.command.optNodes.version?.source === "cli") {
       this.emit("version");
@@ -824,11 +1455,13 @@ export class NixClap extends EventEmitter {
    *
    * @param argv - The array of command-line arguments to parse.
    * @param start - The index to start parsing from. Defaults to 0.
+   * @param pending - If provided, promises of async `validate` callbacks are added to it for the
+   *   caller to await.  Otherwise async validators are reported as errors.
    * @returns An object containing the parsed command, the original arguments,
    *          any error nodes, the remaining unparsed arguments, and the index
    *          at which parsing stopped.
    */
-  parse2(argv: string[], start = 0) {
+  parse2(argv: string[], start = 0, pending?: Promise<void>[]): ParseResult<O, A> {
     if (argv === undefined) {
       argv = process.argv;
       start = 2;
@@ -841,19 +1474,33 @@ export class NixClap extends EventEmitter {
 
     const parser = new Parser(this);
 
-    const { command, index } = parser.parse(argv, start);
-    const missing = command.checkRequiredOptions();
-    if (missing.length > 0) {
-      command.addError(new Error("missing these required options " + missing.join(", ")));
+    let responseFileError: Error;
+    if (this._config.responseFiles) {
+      try {
+        const expanded = expandResponseFiles(argv, start);
+        argv = expanded.argv;
+        parser.argOrigins = expanded.origins;
+        parser.argIndexes = expanded.indexes;
+      } catch (err) {
+        responseFileError = err;
+      }
     }
 
-    // apply default args
-    command.applyDefaults();
-    command.makeCamelCaseOptions();
+    const { command, index } = parser.parse(argv, start);
+    if (responseFileError) {
+      // show it before errors from the args that were not expanded
+      command.errors.unshift(responseFileError);
+    }
+    // fill options bound to environment variables, before checking required options
+    command.applyEnv();
+    this._applyConfigFiles(command);
+    this._checkCommand(command);
+    command.runValidators(pending);
 
     const errorNodes = command.getErrorNodes();
+    this._addErrorInfo(errorNodes);
     return {
-      command,
+      command: command as CommandNode<O, A>,
       argv,
       errorNodes,
       _: argv.slice(index),
@@ -861,6 +1508,49 @@ export class NixClap extends EventEmitter {
     };
   }
 
+  /**
+   * Apply implied and default values to the parsed command, and check required, exclusive and
+   * dependent options.
+   *
+   * @param command - the parsed root command
+   */
+  private _checkCommand(command: CommandNode) {
+    command.applyImplies();
+    const missing = command.checkRequiredOptions();
+    if (missing.length > 0) {
+      command.addError(
+        new MissingRequiredOptionError(
+          "missing these required options " + missing.join(", "),
+          missing
+        )
+      );
+    }
+
+    // apply default args
+    command.applyDefaults();
+    command.checkExclusiveOptions();
+    command.makeCamelCaseOptions();
+    command.checkOptionDependencies();
+  }
+
+  /**
+   * Fill the command path and the option name of the errors from the nodes they are in
+   *
+   * @param errorNodes - the nodes with errors
+   */
+  private _addErrorInfo(errorNodes: ClapNode[]) {
+    for (const node of errorNodes) {
+      const isOption = node instanceof OptionNode;
+      const cmd = (isOption ? node.getParent() : node) as CommandNode;
+      for (const err of node.errors) {
+        if (err instanceof NixClapError) {
+          err.cmdPath = err.cmdPath || cmd.cmdPath;
+          err.option = err.option ?? (isOption ? node.name : undefined);
+        }
+      }
+    }
+  }
+
   /**
    * Determines if the root command should be executed based on parsing results.
    *
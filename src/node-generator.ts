@@ -1,9 +1,10 @@
-import assert from "assert";
 import {
   ArgInfo,
   BaseSpec,
   CliBase,
   isRootCommand,
+  NixClapError,
+  NUMBER_TYPES,
   UnknownCliArgError,
   UnknownOptionError
 } from "./base.ts";
@@ -12,8 +13,8 @@ import { CommandNode } from "./command-node.ts";
 import { OptionBase } from "./option-base.ts";
 import { OptionNode } from "./option-node.ts";
 import { OptionMatch } from "./options.ts";
-import { isBoolean, toBoolean, isNumber } from "./xtil.ts";
-import { CommandMatched } from "./command-base.ts";
+import { isBoolean, toBoolean, isNumber, toNumber, suggestNames } from "./xtil.ts";
+import { CommandBase, CommandMatched } from "./command-base.ts";
 import { unknownCommandBase, unknownCommandBaseNoOptions } from "./command-base.ts";
 import { _PARENT } from "./symbols.ts";
 
@@ -21,10 +22,12 @@ import { _PARENT } from "./symbols.ts";
  * Represents the source of an option in the application.
  *
  * - `cli`: The option was provided via the command line interface.
+ * - `env`: The option was set from an environment variable.
  * - `user`: The option was set by the user.
+ * - `implied`: The option was set by the `implies` of another option.
  * - `default`: The option is using the default value.
  */
-export type OptionSource = "cli" | "user" | "default";
+export type OptionSource = "cli" | "env" | "user" | "implied" | "default";
 
 const BUILDER_STATUS_GATHER_END = 1;
 const BUILDER_STATUS_COMPLETE = 2;
@@ -86,13 +89,9 @@ export class ClapNodeGenerator {
       return value;
     }
 
-    if (type === "number") {
-      // Use parseFloat to preserve decimals, parseInt for explicit integer type
-      return parseFloat(value);
-    } else if (type === "int" || type === "integer") {
-      return parseInt(value, 10);
-    } else if (type === "float") {
-      return parseFloat(value);
+    if (NUMBER_TYPES.includes(type)) {
+      // same strict rule as checkValue, so invalid values are never converted silently
+      return toNumber(value);
     } else if (!type || type === "boolean") {
       return toBoolean(value);
     } else {
@@ -111,7 +110,7 @@ export class ClapNodeGenerator {
           //
           return customType(value);
         } catch (e) {
-          this.node.addError(e);
+          this.node.addError(new NixClapError(e.message, "INVALID_VALUE", { cause: e }));
           return `${type} custom type function threw error: ${e.message}`;
         }
       } else if (customType instanceof RegExp) {
@@ -125,16 +124,68 @@ export class ClapNodeGenerator {
         }
 
         this.node.addError(
-          new Error(`argument '${value}' didn't match RegExp requirement for ${base.name}`)
+          new NixClapError(
+            `argument '${value}' didn't match RegExp requirement for ${base.name}`,
+            "INVALID_VALUE"
+          )
         );
       } else {
-        this.node.addError(new Error(`Unknown custom type handler: ${typeof customType}`));
+        this.node.addError(
+          new NixClapError(
+            `Unknown custom type handler: ${typeof customType}`,
+            "INVALID_CUSTOM_TYPE"
+          )
+        );
       }
     }
 
     return value;
   }
 
+  /**
+   * Check that the value of an argument is valid for its choices, numeric type, and the
+   * `min`, `max` and `integer` constraints of the option or command, if it has any
+   *
+   * @param arg - the argument
+   * @param value - the value
+   * @param base - the option or command the argument belongs to
+   */
+  checkValue(arg: ArgInfo, value: any, base: CliBase<BaseSpec>) {
+    const str = String(value);
+    const { min, max } = base.spec;
+    let expected: string;
+
+    if (arg.choices) {
+      if (!arg.choices.includes(str)) {
+        expected = `one of: ${arg.choices.map(c => JSON.stringify(c)).join(", ")}`;
+      }
+    } else if (NUMBER_TYPES.includes(arg.type)) {
+      const n = toNumber(str);
+      if (!isFinite(n)) {
+        expected = "a number";
+      } else if ((arg.type.startsWith("int") || base.spec.integer) && !Number.isInteger(n)) {
+        expected = "an integer";
+      } else if (min !== undefined && n < min) {
+        expected = `a number >= ${min}`;
+      } else if (max !== undefined && n > max) {
+        expected = `a number <= ${max}`;
+      }
+    }
+
+    if (expected) {
+      const what =
+        base.cliType === "option"
+          ? `option '${base.name}'`
+          : `argument${arg.name ? ` '${arg.name}'` : ""} of command '${base.name}'`;
+      this.node.addError(
+        new NixClapError(
+          `Invalid value '${str}' for ${what} - expected ${expected}`,
+          "INVALID_VALUE"
+        )
+      );
+    }
+  }
+
   /**
    *
    * @param arg
@@ -241,7 +292,8 @@ export class ClapNodeGenerator {
         // Error: command requires a subcommand
         throw new UnknownCliArgError(
           `Command '${cmd.name}' requires a subcommand. Unknown: '${arg}'.`,
-          arg
+          arg,
+          suggestNames(arg, cmd.subCommandNames)
         );
       }
 
@@ -255,7 +307,9 @@ export class ClapNodeGenerator {
       // unknown command or invalid argument
       throw new UnknownCliArgError(
         `Encountered unknown CLI argument '${arg}' while parsing for command '${parsingCmd}'.`,
-        arg
+        arg,
+        suggestNames(arg, cmd.subCommandNames),
+        "UNKNOWN_ARG"
       );
     }
 
@@ -347,14 +401,27 @@ export class ClapNodeGenerator {
   /**
    *
    * @param data
+   * @param complete
+   * @param source
+   * @param origin - the command the option was first given to, for suggesting close matches
+   *   if it's unknown
+   * @param abbreviate - whether to match abbreviations, default to only if no command in the
+   *   chain has an option with the exact name or alias
    * @returns
    */
-  setOptValue(data: OptionMatch, complete = false, source: OptionSource = "cli"): OptionNode {
+  setOptValue(
+    data: OptionMatch,
+    complete = false,
+    source: OptionSource = "cli",
+    origin?: CommandBase,
+    abbreviate = !this.matchesExactly(data)
+  ): OptionNode {
     const cmd = this.cmdNode.cmdBase;
+    origin = origin || cmd;
 
     // does this command want this option
 
-    const matched = cmd.options.match(data);
+    const matched = cmd.options.match(data, abbreviate);
 
     let node: OptionNode;
 
@@ -363,10 +430,14 @@ export class ClapNodeGenerator {
       if (!allowUnknownOption) {
         // Check parent command if option doesn't match current command
         if (allowUnknownOption === undefined && this.parent) {
-          return this.parent.setOptValue(data, complete);
+          return this.parent.setOptValue(data, complete, undefined, origin, abbreviate);
         }
         this.node.addError(
-          new UnknownOptionError(`Encountered unknown CLI option '${data.name}'.`, data)
+          new UnknownOptionError(
+            `Encountered unknown CLI option '${data.name}'.`,
+            data,
+            suggestNames(data.name, origin.optionNames)
+          )
         );
       }
       // no more parent, accept as unknown option at root command
@@ -376,6 +447,10 @@ export class ClapNodeGenerator {
     }
 
     node.source = source;
+    if (matched && source === "cli" && matched.deprecation) {
+      node.deprecation = matched.deprecation;
+      this.cmdNode.deprecations.push(matched.deprecation);
+    }
     this.cmdNode.addOptionNode(node);
 
     if (complete) {
@@ -386,6 +461,26 @@ export class ClapNodeGenerator {
     return node;
   }
 
+  /**
+   * Check if the name of an option matches an option or alias exactly, of this command or a
+   * parent command that the option would be passed on to.
+   *
+   * @param data - the option data to match
+   * @returns `true` if it matches exactly
+   */
+  private matchesExactly(data: OptionMatch): boolean {
+    for (let builder: ClapNodeGenerator = this; builder; builder = builder.parent) {
+      const cmd = builder.cmdNode.cmdBase;
+      if (cmd.options.match(data, false)) {
+        return true;
+      }
+      if (cmd.allowUnknownOption !== undefined) {
+        return false;
+      }
+    }
+    return false;
+  }
+
   /**
    * Adds an option with its arguments to the current node.
    *
@@ -398,16 +493,20 @@ export class ClapNodeGenerator {
     option: OptionBase,
     source: OptionSource = "default"
   ) {
-    const builder = this.makeOptNode({
-      name: name,
-      verbatim: name,
-      arg: "",
-      dashes: 2,
-      value: args[0],
-      option
-    })[0];
-
-    builder.optNode.source = source;
+    const optNode = this.setOptValue(
+      {
+        name: name,
+        verbatim: name,
+        arg: "",
+        dashes: 0,
+        value: args[0],
+        option
+      },
+      false,
+      source
+    );
+
+    const builder = new ClapNodeGenerator(optNode, this);
     // apply more default args
     for (let ix = 1; ix < args.length; ix++) {
       builder.consumeNonOptAsOption(args[ix]);
@@ -474,6 +573,7 @@ export class ClapNodeGenerator {
       name = opt.substring(5);
       value = "false";
       verbatim = "no-";
+      dashes = 2;
     } else {
       dashes = opt.startsWith("--") ? 2 : 1;
       name = opt.substring(dashes);
@@ -528,12 +628,18 @@ export class ClapNodeGenerator {
     const opt = node.option;
     const args = opt.args;
 
-    assert(
-      this.node.argsList && this.node.argsList.length >= opt.needArgs,
-      `Not enough arguments for option '${opt.name}'`
-    );
+    if (!(this.node.argsList.length >= opt.needArgs)) {
+      throw new NixClapError(`Not enough arguments for option '${opt.name}'`, "MISSING_ARG", {
+        option: opt.name
+      });
+    }
+
+    if (opt.isMap && !this.splitMapEntry()) {
+      return;
+    }
 
     const setArg = (argIx: number, arg: ArgInfo, value: string | string[]) => {
+      [].concat(value).forEach(v => this.checkValue(arg, v, opt));
       const setValue = Array.isArray(value)
         ? value.map(v => this.convertValue(arg.type, v, opt))
         : this.convertValue(arg.type, value, opt);
@@ -545,7 +651,8 @@ export class ClapNodeGenerator {
     };
 
     if (opt.hasArgs) {
-      for (let i = 0; i < args.length && i < node.argsList.length; i++) {
+      const fixedArgs = opt.isVariadicArgs ? args.length - 1 : args.length;
+      for (let i = 0; i < fixedArgs && i < node.argsList.length; i++) {
         setArg(i, args[i], node.argsList[i]);
       }
     } else {
@@ -567,6 +674,43 @@ export class ClapNodeGenerator {
     }
   }
 
+  /**
+   * Split the arg of a map option into the key and the value, unless the key was given with
+   * the option name, ie: `--define.NAME=value`.  Check for duplicate keys.
+   *
+   * @returns `false` if the arg is not a key and value pair
+   */
+  private splitMapEntry(): boolean {
+    const node = this.optNode;
+    const opt = node.option;
+    const { separator, duplicates } = opt.mapSpec;
+
+    if (node.mapKey === undefined) {
+      const entry = node.argsList[0];
+      const sepX = entry.indexOf(separator);
+      const key = sepX < 0 ? "" : entry.substring(0, sepX).trim();
+      if (!key) {
+        node.addError(
+          new NixClapError(
+            `Invalid value '${entry}' for option '${opt.name}' - expected key${separator}value`,
+            "INVALID_VALUE"
+          )
+        );
+        return false;
+      }
+      node.mapKey = key;
+      node.argsList[0] = entry.substring(sepX + separator.length).trim();
+    }
+
+    if (duplicates === "error" && node.previous?.some(x => x.mapKey === node.mapKey)) {
+      node.addError(
+        new NixClapError(`Duplicate key '${node.mapKey}' for option '${opt.name}'`, "DUPLICATE_KEY")
+      );
+    }
+
+    return true;
+  }
+
   /**
    *
    */
@@ -575,12 +719,12 @@ export class ClapNodeGenerator {
     const cmd = node.cmdBase;
     const args = cmd.args;
 
-    assert(
-      this.node.argsList && this.node.argsList.length >= cmd.needArgs,
-      `Not enough arguments for command '${cmd.name}'`
-    );
+    if (!(this.node.argsList.length >= cmd.needArgs)) {
+      throw new NixClapError(`Not enough arguments for command '${cmd.name}'`, "MISSING_ARG");
+    }
 
     const setArg = (argIx: number, arg: ArgInfo, value: any) => {
+      [].concat(value).forEach(v => this.checkValue(arg, v, cmd));
       const setValue = Array.isArray(value)
         ? value.map(v => this.convertValue(arg.type, v, cmd))
         : this.convertValue(arg.type, value, cmd);
@@ -591,7 +735,8 @@ export class ClapNodeGenerator {
       node.argsMap[argIx] = setValue;
     };
 
-    for (let i = 0; i < args.length && i < node.argsList.length; i++) {
+    const fixedArgs = cmd.isVariadicArgs ? args.length - 1 : args.length;
+    for (let i = 0; i < fixedArgs && i < node.argsList.length; i++) {
       setArg(i, args[i], node.argsList[i]);
     }
 
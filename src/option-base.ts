@@ -1,7 +1,9 @@
-import { BaseSpec, CliBase } from "./base.ts";
+import { BaseSpec, CliBase, ValidateFunc } from "./base.ts";
 import { dup, prefixOption } from "./xtil.ts";
+import { OptionValue } from "./command-meta.ts";
+import { CommandNode } from "./command-node.ts";
 
-export const SUPPORT_TYPES = ["count", "string", "number", "float", "boolean"];
+export const SUPPORT_TYPES = ["count", "string", "number", "float", "boolean", "int", "integer"];
 export const OPTION_FIELDS = {
   alias: ["string", "array"],
   type: ["string"],
@@ -15,6 +17,19 @@ export const OPTION_FIELDS = {
   customTypes: ["object"]
 };
 
+/**
+ * Settings of a `map` option
+ */
+export type MapSpec = {
+  /** separator between the key and the value, default `=` */
+  separator?: string;
+  /**
+   * What to do when a key is given more than once: `"last"` (default) keeps the last value,
+   * and `"error"` makes it a parse error.
+   */
+  duplicates?: "last" | "error";
+};
+
 /**
  * Option Spec
  */
@@ -24,6 +39,82 @@ export interface OptionSpec extends BaseSpec {
    * The value is the maximum number of times the option can be specified.
    */
   counting?: number;
+  /**
+   * Environment variable to fill the option from, if it's not specified in the command line.
+   *
+   * - A string: name of the environment variable.
+   * - `true`: name is generated from `envPrefix` in the NixClap config and the option name,
+   *   ie: `log-level` with prefix `MYAPP` is `MYAPP_LOG_LEVEL`.
+   *
+   * For options that take multiple args, the value is split by `,`.
+   *
+   * The `source` will be `"env"`.
+   */
+  env?: string | boolean;
+  /**
+   * Valid values for the option's arguments.  Any other value is a parse error.
+   *
+   * Arguments can also have their own choices in the `args` specifier, ie: `"<mode string:dev|prod>"`,
+   * which take precedence over this.  Without `args`, the option takes one string arg.
+   */
+  choices?: readonly string[];
+  /**
+   * Names of options that can't be specified together with this option in the command line.
+   * They can be options of the same command or its parents.
+   */
+  conflicts?: readonly string[];
+  /**
+   * Names of options that must also be specified when this option is specified.
+   */
+  requires?: string | readonly string[];
+  /**
+   * Make this option required when a condition is met:
+   *
+   * - A string `"name=value"`: when option `name` has the value `value`, ie: `"mode=prod"`.
+   * - A string `"name"`: when option `name` is specified.
+   * - A function: when it returns `true`.  It's called with the values of the options visible
+   *   to the command, and the command node.
+   *
+   * It's checked after defaults are applied, so default values count for the condition.
+   */
+  requiredIf?: string | ((opts: Record<string, OptionValue>, cmd: CommandNode) => boolean);
+  /**
+   * Values to set for other options when this option is specified, ie: `{ color: false, reporter: "dot" }`.
+   *
+   * The `source` of the implied values will be `"implied"`.  They never override values from
+   * the command line or env.
+   */
+  implies?: Record<string, OptionValue>;
+  /**
+   * Validate the value of the option, after it's coerced and defaults are applied.
+   *
+   * Return `false` or an error message, or throw an error, to reject the value.  The error is
+   * added to the option node.  It's not called if the option has no value.
+   */
+  validate?: ValidateFunc<OptionValue>;
+  /**
+   * Title of the section to show the option in help, ie: `"Output"` or `"Network"`.
+   *
+   * Options without a group are shown in the `Options` section.
+   */
+  group?: string;
+  /**
+   * Collect the values of every occurrence of the option into an array, in the order they were
+   * specified, ie: `--tag a --tag b` gives `["a", "b"]`.  Without it, the last one wins.
+   *
+   * An array from config files or `applyConfig` is taken as multiple occurrences.  The default
+   * is used only when the option is not specified at all.
+   */
+  multiple?: boolean;
+  /**
+   * Take `key=value` args and collect them into an object, ie: `--define NAME=value` or
+   * `--define.NAME=value`.  Can be `true` or a `MapSpec` to set the separator and what to do
+   * with duplicate keys.  Spaces around the separator are trimmed.
+   *
+   * The option can be repeated, and its only arg is for the values, which are coerced to its
+   * type.  It defaults to `"< string>"`.
+   */
+  map?: boolean | MapSpec;
   // Add any option-specific properties here
   // For example:
   // shortFlag?: string;
@@ -48,8 +139,16 @@ export class OptionBase extends CliBase<OptionSpec> {
   type: string;
   constructor(name: string, optSpec: OptionSpec) {
     const specCopy = dup(optSpec);
+    if ((specCopy.map || specCopy.choices) && !specCopy.args) {
+      specCopy.args = "< string>";
+    }
     super(name, specCopy);
     this.processArgs();
+    if (specCopy.choices) {
+      for (const arg of this.args) {
+        arg.choices = arg.choices || specCopy.choices.map(String);
+      }
+    }
     this.type = this._buildTypeString();
     this.help = this._buildHelpString(name, optSpec);
   }
@@ -57,9 +156,13 @@ export class OptionBase extends CliBase<OptionSpec> {
   /**
    * Builds the type string for display in help text.
    * Returns empty string for no args, single type for one arg, or "type .." for variadic.
+   * For map options, it's "key=value ..", or "key=type .." if the values are not strings.
    */
   private _buildTypeString(): string {
-    if (this.expectArgs === 0) {
+    if (this.isMap) {
+      const type = this.args[0].type;
+      return `key${this.mapSpec.separator}${type === "string" ? "value" : type} ..`;
+    } else if (this.expectArgs === 0) {
       return "";
     } else if (this.expectArgs === 1) {
       return this.args[0].type;
@@ -77,16 +180,49 @@ export class OptionBase extends CliBase<OptionSpec> {
       .concat(
         []
           .concat(optSpec.alias)
-          .filter(x => x)
+          .filter(x => x && !optSpec.deprecatedAliases?.[x])
           .map(prefixOption)
       )
       .join(", ");
   }
 
+  /**
+   * Get the name of the environment variable the option is bound to.
+   *
+   * @param prefix - prefix for generated names
+   * @returns name of the environment variable, or `undefined` if the option is not bound to one
+   */
+  envName(prefix?: string): string | undefined {
+    const env = this.spec.env;
+    if (typeof env === "string") {
+      return env;
+    } else if (env === true) {
+      const name = this.name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/-/g, "_");
+      return (prefix ? `${prefix}_${name}` : name).toUpperCase();
+    }
+    return undefined;
+  }
+
   get isCounting() {
     return this.spec.counting !== undefined;
   }
 
+  get isMultiple() {
+    return !!(this.spec.multiple || this.spec.map);
+  }
+
+  get isMap() {
+    return !!this.spec.map;
+  }
+
+  /**
+   * Get the settings of a map option, with the defaults filled in
+   */
+  get mapSpec(): MapSpec {
+    const map = this.spec.map;
+    return { separator: "=", duplicates: "last", ...(typeof map === "object" ? map : {}) };
+  }
+
   get cliType(): string {
     return "option";
   }
@@ -2,6 +2,7 @@ import { ClapNode } from "./clap-node.ts";
 import { OptionBase, optUnknown } from "./option-base.ts";
 import { OptionMatch } from "./options.ts";
 import { OptionSource } from "./node-generator.ts";
+import { DeprecationNotice } from "./base.ts";
 
 /**
  * Represents an option node in the command-line argument parser.
@@ -21,6 +22,22 @@ import { OptionSource } from "./node-generator.ts";
 export class OptionNode extends ClapNode {
   option: OptionBase;
   source: OptionSource;
+  /**
+   * Path of the config file that provided the option's value, if it came from one
+   */
+  sourceFile?: string;
+  /**
+   * Set if user entered a deprecated option or alias on the command line
+   */
+  deprecation?: DeprecationNotice;
+  /**
+   * Earlier occurrences of a `multiple` option, in the order user specified them
+   */
+  previous?: OptionNode[];
+  /**
+   * Key of the entry for a map option
+   */
+  mapKey?: string;
 
   constructor(data: OptionMatch, parent?: ClapNode) {
     super(data.name, data.alias, parent);
@@ -29,6 +46,15 @@ export class OptionNode extends ClapNode {
       this.addArg(data.value);
     }
     this.option = data.option || optUnknown;
+    this.mapKey = data.mapKey;
+  }
+
+  /**
+   * All occurrences of the option, in the order user specified them.  Only `multiple` options
+   * can have more than one.
+   */
+  get occurrences(): OptionNode[] {
+    return (this.previous || []).concat(this);
   }
 
   applyDefaults(): void {
@@ -1,7 +1,19 @@
 import assert from "assert";
 import { CommandBase } from "./command-base.ts";
 import { OptionBase, OptionSpec } from "./option-base.ts";
-import { cbOrVal, dup, fitLines, getTerminalWidth, resetZebraIndex, nextZebraIndex } from "./xtil.ts";
+import { AmbiguousMatchError, DeprecationNotice } from "./base.ts";
+import { HelpOptionEntry, HelpOptionGroup, renderOptionsHelp } from "./help-model.ts";
+import { cbOrVal, dup, prefixOption } from "./xtil.ts";
+
+/**
+ * Title of the help section for options without a group
+ */
+export const OPTIONS_GROUP = "Options";
+
+/**
+ * Title of the help section for options inherited from parent commands
+ */
+export const GLOBAL_OPTIONS_GROUP = "Global Options";
 
 /**
  * `Record<string, OptionSpec>`
@@ -18,6 +30,8 @@ export type GroupOptionSpec = Record<string, OptionSpec>;
  * @property {string} arg - The argument associated with the option.
  * @property {number} dashes - The number of dashes used to prefix the option.
  * @property {Option} [option] - An optional reference to the Option object.
+ * @property {DeprecationNotice} [deprecation] - Set if the option or the alias used is deprecated.
+ * @property {string} [mapKey] - The key given with the name of a map option, ie: `NAME` of `--define.NAME`.
  */
 export type OptionMatch = {
   name: string;
@@ -27,6 +41,8 @@ export type OptionMatch = {
   arg: string;
   dashes: number;
   option?: OptionBase;
+  deprecation?: DeprecationNotice;
+  mapKey?: string;
 };
 
 /**
@@ -76,7 +92,8 @@ export class Options {
    * aliases for options, ensuring that each alias is unique and not already used
    * by another option.
    *
-   * @throws {Error} If an alias is already used by another option.
+   * @throws {Error} If an alias is already used by another option, the replacement of a
+   *   deprecated option is not an option of the command, or a map option has more than one arg.
    */
   processSpecData() {
     this.count = 0;
@@ -86,9 +103,9 @@ export class Options {
 
       if (_spec.alias) {
         if (!Array.isArray(_spec.alias)) {
-          _spec.alias = [_spec.alias];
+          _spec.alias = [_spec.alias as string];
         }
-        _spec.alias.forEach(a => {
+        (_spec.alias as readonly string[]).forEach(a => {
           assert(
             !this._optAlias.hasOwnProperty(a),
             `Init command ${this.command.name} failed - Option alias ${a} already used by option ${this._optAlias[a]}`
@@ -97,42 +114,147 @@ export class Options {
         });
       }
     }
+
+    for (const [name, opt] of Object.entries(this._options)) {
+      const replacement = opt.deprecation?.replacement;
+      assert(
+        !replacement || this._options.hasOwnProperty(replacement),
+        `Init command ${this.command.name} failed - Option ${name} is deprecated for ${replacement}, which is not an option of the command`
+      );
+      assert(
+        !opt.isMap || (opt.expectArgs === 1 && opt.needArgs === 1),
+        `Init command ${this.command.name} failed - Map option ${name} must have one required arg for the values`
+      );
+    }
   }
 
   /**
    * Matches the provided option data against the available options and aliases.
    *
+   * If `allowAbbreviation` is enabled, a long option (`--name`) can also match by being the
+   * unique prefix of an option's name or alias.
+   *
+   * If the option or the alias is deprecated, `deprecation` is set, and a deprecated option
+   * with a replacement matches the replacement.
+   *
+   * A name like `define.NAME` matches map option `define`, with `mapKey` set to `NAME`.  The key
+   * can't be empty.
+   *
    * @param data - The option data to match.
+   * @param abbreviate - `false` to only match the names and aliases exactly
    * @returns The matched option data with updated name and alias, or `false` if no match is found.
+   * @throws AmbiguousMatchError if the abbreviation is the prefix of more than one option
    */
-  match(data: OptionMatch): OptionMatch | false {
+  match(data: OptionMatch, abbreviate = true): OptionMatch | false {
     const alias = data.name;
     let name: string;
     let option = this._options[alias];
 
+    const dotX = alias.indexOf(".");
+    if (dotX > 0 && !option && !this._optAlias[alias]) {
+      const matched = this.match({ ...data, name: alias.substring(0, dotX) }, abbreviate);
+      const mapKey = alias.substring(dotX + 1).trim();
+      if (matched && matched.option.isMap && mapKey) {
+        return { ...matched, mapKey };
+      }
+    }
+
     if (option) {
       name = alias;
     } else if (this._optAlias[alias]) {
       name = this._optAlias[alias];
       option = this._options[name];
+    } else if (abbreviate && data.dashes === 2 && this.command.ncConfig?.allowAbbreviation) {
+      name = this.matchAbbreviation(alias);
+      if (!name) {
+        return false;
+      }
+      option = this._options[name];
     } else {
       return false;
     }
 
-    return { ...data, name, alias: alias, option };
+    // a deprecated option is parsed as its replacement
+    const deprecation = option.getDeprecation(alias);
+    if (deprecation && !deprecation.alias && deprecation.replacement) {
+      name = deprecation.replacement;
+      option = this._options[name];
+    }
+
+    return { ...data, name, alias: alias, option, deprecation };
+  }
+
+  /**
+   * Find the option that an abbreviation is the unique prefix of its name or one of its
+   * long aliases.  Hidden options only match exactly, not by abbreviation.
+   *
+   * @param abbr - the abbreviation
+   * @returns name of the option, or `undefined` if no option matches
+   * @throws AmbiguousMatchError if more than one option matches
+   */
+  matchAbbreviation(abbr: string): string | undefined {
+    const names = Object.keys(this._options)
+      .concat(Object.keys(this._optAlias))
+      .filter(n => n.length > 1 && n.startsWith(abbr))
+      .map(n => this._optAlias[n] || n)
+      .filter(n => !this._options[n].hidden);
+    const candidates = [...new Set(names)];
+    if (candidates.length > 1) {
+      throw new AmbiguousMatchError(
+        `Ambiguous option '${prefixOption(abbr)}' matches: ${candidates.map(prefixOption).join(", ")}`,
+        abbr,
+        candidates
+      );
+    }
+    return candidates[0];
+  }
+
+  /**
+   * Get the options that are not hidden
+   */
+  get visibleOptions(): OptionBase[] {
+    return Object.values(this._options).filter(opt => !opt.hidden);
   }
 
   /**
    * Finds the length of the longest help text among all options.
    *
+   * @param options - The options, default to all the options.
    * @returns {number} The length of the longest help text.
    */
-  findLongestOptionHelpText(): number {
-    let max = 0;
-    for (const opt of Object.values(this._options)) {
-      max = Math.max(opt.help.length, max);
-    }
-    return max;
+  findLongestOptionHelpText(options: OptionBase[] = Object.values(this._options)): number {
+    return this.makeHelpEntries(options).reduce(
+      (max, entry) => Math.max(max, entry.usage.length),
+      0
+    );
+  }
+
+  /**
+   * Makes the help model entries of the options, with their descriptions, types, constraints,
+   * default values and environment variables.
+   *
+   * @param options - The options to make entries for, default to the options not hidden.
+   * @returns The entries of the options.
+   */
+  makeHelpEntries(options: OptionBase[] = this.visibleOptions): HelpOptionEntry[] {
+    return options.map(opt => {
+      const entry: HelpOptionEntry = {
+        name: opt.name,
+        usage: opt.help,
+        desc: (cbOrVal(opt.spec.desc) || "").trim() || undefined,
+        type: opt.type || undefined,
+        tags: opt.makeConstraintsHelp(),
+        deprecated: opt.deprecation && opt.getDeprecation().message
+      };
+      if (opt.spec.argDefault && opt.isSingleArg) {
+        entry.default = opt.spec.argDefault;
+      }
+      const envName = opt.envName(this.command.ncConfig?.envPrefix);
+      if (envName) {
+        entry.env = envName;
+      }
+      return entry;
+    });
   }
 
   /**
@@ -143,30 +265,54 @@ export class Options {
    * is formatted to fit within a specified width. Alternating options are dimmed for
    * better readability.
    *
+   * @param options - The options to generate help for, default to the options not hidden.
    * @returns {string[]} An array of strings representing the formatted help text.
    */
-  makeHelp(): string[] {
-    const width = this.findLongestOptionHelpText();
-    let help: string[] = [];
-    resetZebraIndex();
+  makeHelp(options: OptionBase[] = this.visibleOptions): string[] {
+    return renderOptionsHelp(this.makeHelpEntries(options));
+  }
 
+  /**
+   * Makes the help model sections of the options by their `group`.
+   *
+   * Options without a group are in the `Options` section, and options inherited from parent
+   * commands are in the `Global Options` section, which is the last by default.
+   *
+   * @param globalOptions - The options inherited from parent commands.
+   * @param order - Titles of the sections to show first, in this order.  Other sections follow
+   *   in the order their first option is defined.
+   * @param showHidden - Also include the hidden options.
+   * @returns The sections that have options, in order.
+   */
+  makeHelpGroups(
+    globalOptions: OptionBase[] = [],
+    order: readonly string[] = [],
+    showHidden = false
+  ): HelpOptionGroup[] {
+    const groups: Record<string, OptionBase[]> = { [OPTIONS_GROUP]: [] };
     for (const opt of Object.values(this._options)) {
-      const tail: string[] = [];
-      if (opt.type) {
-        tail.push(`[${opt.type}]`);
-      }
+      const group = opt.spec.group || OPTIONS_GROUP;
+      groups[group] = (groups[group] || []).concat(opt);
+    }
+    groups[GLOBAL_OPTIONS_GROUP] = (groups[GLOBAL_OPTIONS_GROUP] || []).concat(globalOptions);
+    for (const title in groups) {
+      groups[title] = groups[title].filter(opt => showHidden || !opt.hidden);
+    }
 
-      if (opt.spec.argDefault && opt.isSingleArg) {
-        tail.push(`[default: ${JSON.stringify(opt.spec.argDefault)}]`);
+    const titles = Object.keys(groups);
+    const rank = (title: string) => {
+      const ix = order.indexOf(title);
+      if (ix >= 0) {
+        return ix;
       }
-      const desc = (cbOrVal(opt.spec.desc) || "").trim();
-      const strs = [opt.help, desc ? ` ${desc}` : "", tail.filter(x => x).join(" ")];
-      const lines = fitLines(strs, "  ", "    ", width, getTerminalWidth());
-
-      help = help.concat(lines);
-      nextZebraIndex();
-    }
+      return (
+        order.length + (title === GLOBAL_OPTIONS_GROUP ? titles.length : titles.indexOf(title))
+      );
+    };
 
-    return help;
+    return titles
+      .filter(title => groups[title].length > 0)
+      .sort((a, b) => rank(a) - rank(b))
+      .map(title => ({ title, options: this.makeHelpEntries(groups[title]) }));
   }
 }
@@ -3,7 +3,26 @@ import { NixClap } from "./nix-clap.ts";
 import { ClapNodeGenerator } from "./node-generator.ts";
 import { CommandNode } from "./command-node.ts";
 import { _NEXT, _PREV } from "./symbols.ts";
+import { NixClapError } from "./base.ts";
 
+/**
+ * State of the parser when the end of argv is reached
+ */
+export type ParserPending = {
+  /** the node that was still open, an option node here is always gathering arguments */
+  node: ClapNode;
+  /** number of arguments the node had gathered */
+  argCount: number;
+};
+
+/**
+ * Get the path of the command that a builder is parsing for
+ *
+ * @param builder - the builder of a command or option
+ * @returns names of the commands from the root command to the command
+ */
+const cmdPathOf = (builder: ClapNodeGenerator) =>
+  (builder.cmdNode || builder.node.getParent<CommandNode>()).cmdPath;
 
 /**
  * The `Parser` class is responsible for parsing command-line arguments
@@ -52,15 +71,46 @@ export class Parser {
    * @type {ClapNode[]}
    */
   private _nodeList: ClapNode[];
+  /**
+   * Index in argv of the arg that each node was added for
+   */
+  private _argIndexes: Map<ClapNode, number>;
+  /**
+   * Don't insert the default command even if there are no non-option arguments.
+   *
+   * @private
+   */
+  private _noDefaultCommand: boolean;
+
+  /**
+   * The node that was still open when the end of argv is reached, and how many arguments it
+   * had gathered.  Completion uses this to find out what the next argument is expected for.
+   */
+  pending?: ParserPending;
+
+  /**
+   * Locations of the args that came from response files, as `file:line`, by their index in
+   * argv.  Errors caused by those args get the location added to their messages.
+   */
+  argOrigins?: string[];
+
+  /**
+   * Indexes of the args in the argv before response files were expanded.  Errors get these
+   * as their `argIndex`.
+   */
+  argIndexes?: number[];
 
   /**
    * Creates an instance of the parser.
    *
    * @param nc - An instance of NixClap.
+   * @param noDefaultCommand - Don't insert the default command when there are no non-option arguments.
    */
-  constructor(nc: NixClap) {
+  constructor(nc: NixClap, noDefaultCommand = false) {
     this._nc = nc;
     this._nodeList = [];
+    this._argIndexes = new Map();
+    this._noDefaultCommand = noDefaultCommand;
   }
 
   /**
@@ -96,6 +146,66 @@ export class Parser {
     this._nodeList.push(node);
   }
 
+  /**
+   * Count the errors of the nodes that can get errors from the next arg: the nodes of the
+   * current builder and its parents.
+   *
+   * @returns error counts by node
+   */
+  private _countErrors(): Map<ClapNode, number> {
+    const counts = new Map<ClapNode, number>();
+    for (let builder = this._builderStack.at(-1); builder; builder = builder.parent) {
+      counts.set(builder.node, builder.node.errors.length);
+    }
+    return counts;
+  }
+
+  /**
+   * Set the index of an arg as `argIndex` of the errors it caused, and the command being parsed
+   * as their `cmdPath`, and add its location to their messages if it's from a response file.
+   *
+   * @param errorCounts - error counts of the nodes before the arg was consumed
+   * @param newNodes - nodes added for the arg
+   * @param builder - the builder that consumed the arg
+   * @param index - index of the arg in the argv before response files were expanded
+   * @param origin - location of the arg, as `file:line`, if it's from a response file
+   */
+  private _addErrorLocation(
+    errorCounts: Map<ClapNode, number>,
+    newNodes: ClapNode[],
+    builder: ClapNodeGenerator,
+    index: number,
+    origin?: string
+  ) {
+    const nodes = new Set([...errorCounts.keys(), ...newNodes]);
+    for (const node of nodes) {
+      for (const err of node.errors.slice(errorCounts.get(node) || 0)) {
+        if (err instanceof NixClapError) {
+          err.argIndex = err.argIndex ?? index;
+          err.cmdPath = err.cmdPath || cmdPathOf(builder);
+        }
+        if (origin) {
+          err.message += ` (at ${origin})`;
+        }
+      }
+    }
+  }
+
+  /**
+   * Add an error thrown by the builder of a node to the errors of a node.  A missing argument
+   * error gets the index of the option or command that's missing the argument.
+   *
+   * @param node - the node of the builder
+   * @param err - the error
+   * @param errorNode - the node to add the error to
+   */
+  private _addBuilderError(node: ClapNode, err: Error, errorNode = node) {
+    if (err instanceof NixClapError && err.code === "MISSING_ARG") {
+      err.argIndex = this._argIndexes.get(node);
+    }
+    errorNode.errors.push(err);
+  }
+
   /**
    * Consumes the next argument and processes it using the current builder.
    *
@@ -214,7 +324,13 @@ export class Parser {
     // This way all parsing happens under the default command from the start
     // Skip if skipExecDefault is true (to prevent execution)
     // Skip if --help or --version is present (should show root help/version)
-    if (!hasNonOptionArgs && hasDefaultCommand && !skipExecDefault && !hasHelpOrVersion) {
+    if (
+      !hasNonOptionArgs &&
+      hasDefaultCommand &&
+      !skipExecDefault &&
+      !hasHelpOrVersion &&
+      !this._noDefaultCommand
+    ) {
       const defaultCmdName = this._nc._rootCommand.ncConfig.defaultCommand;
       const matched = rootNode.cmdBase.matchSubCommand(defaultCmdName);
       if (matched.cmd) {
@@ -229,7 +345,9 @@ export class Parser {
         this._builderStack = [defaultCmdBuilder];
       } else {
         // Default command not found, set error
-        rootNode.addError(new Error(`default command ${defaultCmdName} not found`));
+        rootNode.addError(
+          new NixClapError(`default command ${defaultCmdName} not found`, "UNKNOWN_COMMAND")
+        );
         this._builderStack = [new ClapNodeGenerator(rootNode)];
       }
     } else {
@@ -238,25 +356,42 @@ export class Parser {
 
     while (_index < argv.length) {
       const arg = this._argv[_index];
+      const origin = this.argOrigins?.[_index];
       _index++;
       if (arg === "--") {
         break;
       }
+      const errorCounts = this._countErrors();
+      const nodeCount = this._nodeList.length;
+      const builder = this._builderStack.at(-1);
       try {
         this._consumeNext(arg);
       } catch (e) {
-        this._builderStack.at(-1).node.errors.push(e);
+        this._addBuilderError(this._builderStack.at(-1).node, e);
       }
+      const newNodes = this._nodeList.slice(nodeCount);
+      const argIndex = this.argIndexes ? this.argIndexes[_index - 1] : _index - 1;
+      newNodes.forEach(node => this._argIndexes.set(node, argIndex));
+      this._addErrorLocation(errorCounts, newNodes, builder, argIndex, origin);
     }
 
+    const openBuilder = this._builderStack.at(-1);
+    this.pending = {
+      node: openBuilder.node,
+      argCount: openBuilder.node.argsList.length
+    };
+
+    let builder = openBuilder;
     try {
-      let builder = this._builderStack.at(-1);
       while (builder) {
         builder.complete();
         builder = builder.parent;
       }
     } catch (e) {
-      rootNode.errors.push(e);
+      if (e instanceof NixClapError) {
+        e.cmdPath = e.cmdPath || cmdPathOf(builder);
+      }
+      this._addBuilderError(builder.node, e, rootNode);
     }
 
     return { command: rootNode, index: _index };
@@ -0,0 +1,98 @@
+import Fs from "fs";
+import Path from "path";
+import { splitCommandLine } from "./xtil.ts";
+import { NixClapError } from "./base.ts";
+
+/**
+ * Args with the response files expanded
+ */
+export type ExpandedArgs = {
+  /** the args, with each `@file` replaced by the args in the file */
+  argv: string[];
+  /**
+   * Location of each arg that came from a response file, as `file:line`, at the same index
+   * as the arg.  `undefined` for args that were not from a file.
+   */
+  origins: string[];
+  /**
+   * Index in the original argv of each arg, at the same index as the arg.  For args from a
+   * response file, it's the index of the `@file` arg.
+   */
+  indexes: number[];
+};
+
+/**
+ * Replace each arg `@file` with the args in the file, recursively.
+ *
+ * Each line of a file is split into args like a shell, with quotes and backslash escapes.
+ * Relative paths are resolved from `cwd`.  Args after `--` are not expanded.
+ *
+ * @param argv - the args
+ * @param start - index to start expanding from
+ * @param cwd - directory to resolve relative paths from
+ * @returns the expanded args, their locations, and their indexes in the original argv
+ * @throws NixClapError if a file can't be read, or it includes itself.  Its `argIndex` is the
+ *   index of the `@file` arg in `argv`.
+ */
+export function expandResponseFiles(
+  argv: string[],
+  start = 0,
+  cwd: string = process.cwd()
+): ExpandedArgs {
+  const expanded: ExpandedArgs = {
+    argv: argv.slice(0, start),
+    origins: [],
+    indexes: argv.slice(0, start).map((_, ix) => ix)
+  };
+  const including: string[] = [];
+  let ended = false;
+
+  const expand = (args: string[], origins: string[], argIndex?: number) => {
+    args.forEach((arg, ix) => {
+      const origin = origins[ix];
+      const info = { argIndex: argIndex ?? start + ix };
+      if (ended || !arg.startsWith("@") || arg.length < 2) {
+        ended = ended || arg === "--";
+        expanded.argv.push(arg);
+        expanded.origins[expanded.argv.length - 1] = origin;
+        expanded.indexes.push(info.argIndex);
+        return;
+      }
+
+      const file = arg.substring(1);
+      const at = origin ? ` at ${origin}` : "";
+      const fullPath = Path.resolve(cwd, file);
+      if (including.includes(fullPath)) {
+        throw new NixClapError(`Response file ${file} includes itself${at}`, "RESPONSE_FILE", info);
+      }
+
+      let content: string;
+      try {
+        content = Fs.readFileSync(fullPath, "utf-8");
+      } catch (err) {
+        throw new NixClapError(
+          `Failed to read response file ${file}${at}: ${err.message}`,
+          "RESPONSE_FILE",
+          info
+        );
+      }
+
+      const fileArgs: string[] = [];
+      const fileOrigins: string[] = [];
+      content.split(/\r?\n/).forEach((line, lineIx) => {
+        for (const word of splitCommandLine(line)) {
+          fileArgs.push(word);
+          fileOrigins.push(`${file}:${lineIx + 1}`);
+        }
+      });
+
+      including.push(fullPath);
+      expand(fileArgs, fileOrigins, info.argIndex);
+      including.pop();
+    });
+  };
+
+  expand(argv.slice(start), []);
+
+  return expanded;
+}
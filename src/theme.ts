@@ -0,0 +1,83 @@
+/**
+ * Function to style a text, ie: to add ANSI color codes
+ */
+export type StyleFunc = (text: string) => string;
+
+/**
+ * Styles for the parts of help and error messages
+ */
+export type Theme = {
+  /** titles of the sections, ie: `Usage:` and `Options:` */
+  heading: StyleFunc;
+  /** sub commands with their args */
+  command: StyleFunc;
+  /** option flags with their aliases, ie: `--verbose, -v` */
+  option: StyleFunc;
+  /** types of the options, ie: `[number]` */
+  type: StyleFunc;
+  /** default values of the options, ie: `[default: 3]` */
+  default: StyleFunc;
+  /** error messages */
+  error: StyleFunc;
+};
+
+/**
+ * Make a style function that wraps text with ANSI codes
+ *
+ * @param open - the ANSI code to turn on the style
+ * @param close - the ANSI code to turn off the style
+ * @returns the style function
+ */
+function ansi(open: number, close: number): StyleFunc {
+  return text => `\x1b[${open}m${text}\x1b[${close}m`;
+}
+
+const plain: StyleFunc = text => text;
+
+/**
+ * The theme without any styles, used when colors are off
+ */
+export const plainTheme: Theme = {
+  heading: plain,
+  command: plain,
+  option: plain,
+  type: plain,
+  default: plain,
+  error: plain
+};
+
+/**
+ * The default color theme
+ */
+export const defaultTheme: Theme = {
+  heading: ansi(1, 22),
+  command: ansi(36, 39),
+  option: ansi(32, 39),
+  type: ansi(33, 39),
+  default: ansi(2, 22),
+  error: ansi(31, 39)
+};
+
+/**
+ * Detect if colors should be used for output.
+ *
+ * `FORCE_COLOR` turns colors on, unless it's `0` or `false`.  Otherwise, `NO_COLOR` with
+ * any value that's not empty turns colors off.  Otherwise, colors are on if the output is a TTY.
+ *
+ * @param stream - the output stream
+ * @param env - the environment variables
+ * @returns whether to use colors
+ */
+export function detectColor(
+  stream: { isTTY?: boolean } = process.stdout,
+  env: Record<string, string | undefined> = process.env
+): boolean {
+  const force = env.FORCE_COLOR;
+  if (force !== undefined) {
+    return !["0", "false"].includes(force.toLowerCase());
+  }
+  if (env.NO_COLOR) {
+    return false;
+  }
+  return Boolean(stream.isTTY);
+}
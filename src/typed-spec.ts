@@ -0,0 +1,199 @@
+import { ArgumentValue, OptionValue } from "./command-meta.ts";
+import { CommandNode } from "./command-node.ts";
+import { CommandSpec } from "./command-base.ts";
+import { ParseResult } from "./nix-clap.ts";
+import { GroupOptionSpec } from "./options.ts";
+import { MapSpec } from "./option-base.ts";
+
+type Trim<S extends string> = S extends ` ${infer R}`
+  ? Trim<R>
+  : S extends `${infer R} `
+    ? Trim<R>
+    : S;
+
+type Replace<
+  S extends string,
+  From extends string,
+  To extends string
+> = S extends `${infer H}${From}${infer T}` ? `${H}${To}${Replace<T, From, To>}` : S;
+
+type Split<S extends string, D extends string> = S extends `${infer H}${D}${infer T}`
+  ? H | Split<T, D>
+  : S;
+
+/** convert kebab-case to camelCase, the same as the runtime `camelCase` */
+type CamelCase<S extends string> = S extends `${infer H}-${infer T}`
+  ? `${H}${Capitalize<CamelCase<T>>}`
+  : S;
+
+/** value type of an arg type name, ie: `number` for `"float"`, or a union of its choices */
+type ArgTypeValue<T extends string> = T extends `${infer Type}:${infer Choices}`
+  ? Type extends "" | "string"
+    ? Split<Choices, "|">
+    : ArgTypeValue<Type>
+  : T extends "number" | "float" | "int" | "integer" | "count"
+    ? number
+    : T extends "boolean"
+      ? boolean
+      : T extends "" | "string"
+        ? string
+        : any;
+
+/**
+ * Info about one arg from its specifier, ie: `"port number"` or `"?files string.."`,
+ * where `?` marks an optional arg.
+ */
+type ArgEntry<S extends string> = S extends `?${infer R}`
+  ? ArgEntryOf<R, true>
+  : ArgEntryOf<S, false>;
+
+type ArgEntryOf<S extends string, Optional extends boolean> = S extends `${infer B}..${infer N}`
+  ? { name: ArgName<B>; value: N extends "1" ? ArgValue<B> : ArgValue<B>[]; optional: Optional }
+  : { name: ArgName<S>; value: ArgValue<S>; optional: Optional };
+
+type ArgName<S extends string> = S extends `${infer N} ${string}`
+  ? N
+  : S extends `${infer N}:${string}`
+    ? N
+    : S;
+
+type ArgValue<S extends string> = S extends `${string} ${infer T}`
+  ? ArgTypeValue<Trim<T>>
+  : S extends `${string}:${infer C}`
+    ? ArgTypeValue<`:${C}`>
+    : string;
+
+/** split args specifier `"<a> [b c]"` into arg entries, with `[b c]` turned into `"?b c"` */
+type ArgEntries<S extends string> =
+  Replace<Replace<S, "[", "<?">, "]", ">"> extends infer R extends string ? SplitArgs<R> : never;
+
+type SplitArgs<S extends string> = S extends `${string}<${infer A}>${infer Rest}`
+  ? [ArgEntry<A>, ...SplitArgs<Rest>]
+  : [];
+
+type EntryValue<E> = E extends { value: infer V; optional: infer O }
+  ? O extends true
+    ? V | undefined
+    : V
+  : never;
+
+type ArgsObject<E extends any[]> = {
+  [K in keyof E as K extends `${number}` ? K : never]: EntryValue<E[K]>;
+} & {
+  [X in E[number] as X["name"] extends "" ? never : X["name"]]: EntryValue<X>;
+};
+
+/**
+ * Type of the args of a command from its args specifier,
+ * ie: `{ port: number; 0: number }` for `"<port number>"`
+ */
+export type InferArgs<S> = string extends S
+  ? Record<string, ArgumentValue>
+  : NonNullable<S> extends string
+    ? ArgsObject<ArgEntries<NonNullable<S>>> & Record<string, ArgumentValue>
+    : Record<string, ArgumentValue>;
+
+/**
+ * Type of the value of an option from its spec.
+ *
+ * - No args: `boolean`, or `number` for counting options
+ * - One arg: type of the arg, or an array for variadic arg
+ * - More args: object of the args, like a command's args
+ * - `multiple` options: an array of the above
+ * - `map` options: an object of the values, which are strings if there's no `args`
+ */
+export type InferOptionValue<S> = S extends { map: true | MapSpec }
+  ? Record<string, S extends { args: string } ? InferOccurrenceValue<S> : string>
+  : S extends { multiple: true }
+    ? InferOccurrenceValue<S>[]
+    : InferOccurrenceValue<S>;
+
+type InferOccurrenceValue<S> = S extends { args: infer A extends string }
+  ? string extends A
+    ? OptionValue
+    : ArgEntries<A> extends []
+      ? InferFlagValue<S>
+      : ArgEntries<A> extends [infer E]
+        ? EntryValue<E>
+        : ArgsObject<ArgEntries<A>>
+  : S extends { choices: readonly string[] }
+    ? string
+    : InferFlagValue<S>;
+
+type InferFlagValue<S> = S extends { counting: number } ? number : boolean;
+
+/** options that always have a value: required or have default */
+type RequiredOptionKeys<O> = {
+  [K in keyof O]: O[K] extends { required: true } | { argDefault: string | readonly string[] }
+    ? K
+    : never;
+}[keyof O];
+
+type OptsOf<O> = {
+  [K in RequiredOptionKeys<O>]: InferOptionValue<O[K]>;
+} & {
+  [K in Exclude<keyof O, RequiredOptionKeys<O>>]?: InferOptionValue<O[K]>;
+};
+
+type CamelCaseKeys<T> = {
+  [K in keyof T as K extends string ? CamelCase<K> : K]: T[K];
+};
+
+/**
+ * Type of the options of a command from its options spec, including the camelCase names
+ * of kebab-case options, ie: `{ "log-level"?: string; logLevel?: string }`.
+ *
+ * Other names, like unknown options or values from `applyConfig`, are still `OptionValue`.
+ */
+export type InferOpts<O> = string extends keyof NonNullable<O>
+  ? Record<string, OptionValue>
+  : OptsOf<NonNullable<O>> & CamelCaseKeys<OptsOf<NonNullable<O>>> & Record<string, OptionValue>;
+
+/**
+ * A command spec with the types of `cmd.opts` and `cmd.args` for `exec` inferred from
+ * `options` and `args`
+ */
+export type TypedCommandSpec<A extends string, O> = Omit<
+  CommandSpec,
+  "args" | "options" | "exec"
+> & {
+  args?: A;
+  options?: O;
+  exec?: (
+    cmd: CommandNode<InferOpts<O>, InferArgs<A>>,
+    parsed?: ParseResult<InferOpts<O>, InferArgs<A>>
+  ) => void | Promise<void>;
+};
+
+/**
+ * Define options with their literal types kept, so the types of their values can be inferred.
+ *
+ * @param options - options spec
+ * @returns the same options spec
+ */
+export function defineOptions<const O extends GroupOptionSpec>(options: O): O {
+  return options;
+}
+
+/**
+ * Define a command with the types of `cmd.opts` and `cmd.args` for its `exec` inferred
+ * from its `options` and `args`.
+ *
+ * @example
+ * ```ts
+ * const serve = defineCommand({
+ *   args: "<port number>",
+ *   options: { host: { args: "<host string>", argDefault: "localhost" } },
+ *   exec: cmd => listen(cmd.args.port, cmd.opts.host)
+ * });
+ * ```
+ *
+ * @param spec - command spec
+ * @returns the same command spec, which can be used as a sub command, or the root command
+ *   for `init2`
+ */
+export function defineCommand<const A extends string = "", const O extends GroupOptionSpec = {}>(
+  spec: TypedCommandSpec<A, O>
+): Omit<CommandSpec, "args" | "options"> & { args?: A; options?: O } {
+  return spec as CommandSpec & { args?: A; options?: O };
+}
@@ -174,7 +174,7 @@ export function fitLine(strs: string[], margin: string, indent: string, lineWidt
 
   const add = (str: string, last: boolean) => {
     let line = out[out.length - 1];
-    if (noAnsiLen(line) + str.length + 1 > lineWidth) {
+    if (noAnsiLen(line) + noAnsiLen(str) + 1 > lineWidth) {
       out.push("");
       line = margin + indent;
     } else {
@@ -285,12 +285,72 @@ export function isNumber(arg: string) {
   return false;
 }
 
+/**
+ * Converts a string to a number strictly.  Only decimal numbers, with optional sign, fraction
+ * and exponent, and surrounding spaces are accepted, so `0x10` or a blank string is not a number.
+ *
+ * @param arg - The string to convert.
+ * @returns The number, or `NaN` if the string is not a decimal number.
+ */
+export function toNumber(arg: string): number {
+  const str = arg.trim();
+  return /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(str) ? Number(str) : NaN;
+}
+
 export const noop = () => {};
 
 export function prefixOption(name: string) {
   return name.length > 1 ? `--${name}` : `-${name}`;
 }
 
+/**
+ * Calculates the edit distance between two strings, counting swapping two adjacent characters
+ * as a single edit, since that's a common typo.
+ *
+ * @param a - first string
+ * @param b - second string
+ * @returns The minimum number of single character insertions, deletions, substitutions or
+ *   transpositions to change `a` into `b`.
+ */
+export function editDistance(a: string, b: string): number {
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        cur[j] = Math.min(cur[j], prev2[j - 2] + 1);
+      }
+    }
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Finds the candidates that are close to an unknown name, for "did you mean" suggestions.
+ *
+ * A candidate is close if its edit distance is within 40% of the name's length, or if it starts
+ * with the name.
+ *
+ * @param name - the unknown name user entered
+ * @param candidates - known names
+ * @param max - max number of suggestions
+ * @returns The close candidates, ranked by edit distance and then alphabetically.
+ */
+export function suggestNames(name: string, candidates: string[], max = 3): string[] {
+  const limit = Math.max(1, Math.floor(name.length * 0.4));
+  return [...new Set(candidates)]
+    .map(c => ({ c, d: c.startsWith(name) ? 0 : editDistance(name, c) }))
+    .filter(x => x.d <= limit && x.d < name.length && x.c !== name)
+    .sort((x, y) => x.d - y.d || x.c.localeCompare(y.c))
+    .slice(0, max)
+    .map(x => x.c);
+}
+
 /**
  * Gets the terminal width for help text formatting.
  * Falls back to 80 columns if terminal width cannot be determined.
@@ -300,3 +360,47 @@ export function prefixOption(name: string) {
 export function getTerminalWidth(): number {
   return process.stdout.columns || 80;
 }
+
+/**
+ * Splits a command line into words like a shell, with single and double quotes to keep
+ * spaces in a word, and backslash to escape the next character outside of single quotes.
+ *
+ * @param line - The command line, ie: `$0 copy "my file.txt" backup`
+ * @returns The words of the command line
+ */
+export function splitCommandLine(line: string): string[] {
+  const words: string[] = [];
+  let word: string | undefined;
+  let quote = "";
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) {
+        quote = "";
+      } else if (ch === "\\" && quote === `"` && i + 1 < line.length) {
+        word += line[++i];
+      } else {
+        word += ch;
+      }
+    } else if (ch === `"` || ch === "'") {
+      quote = ch;
+      word = word || "";
+    } else if (ch === "\\" && i + 1 < line.length) {
+      word = (word || "") + line[++i];
+    } else if (/\s/.test(ch)) {
+      if (word !== undefined) {
+        words.push(word);
+        word = undefined;
+      }
+    } else {
+      word = (word || "") + ch;
+    }
+  }
+
+  if (word !== undefined) {
+    words.push(word);
+  }
+
+  return words;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { AmbiguousMatchError } from "../../src/base.ts";
+import { optUnknown } from "../../src/option-base.ts";
+
+describe("abbreviation", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  const makeNc = (config = {}) =>
+    new NixClap({
+      name: "myapp",
+      allowAbbreviation: true,
+      completion: true,
+      ...noOutputExit,
+      ...config
+    }).init2({
+      options: {
+        verbose: { alias: "v" },
+        version: {},
+        "log-level": {
+          alias: ["l", "loglevel"],
+          args: "< string>",
+          complete: () => ["info", "warn"]
+        }
+      },
+      subCommands: {
+        build: { alias: "b", exec: noop, options: { minify: {} } },
+        bundle: { exec: noop },
+        test: { alias: "check", exec: noop }
+      }
+    });
+
+  it("should match unique prefix of long options and keep the typed alias", () => {
+    const parsed = makeNc().parse(["--verb", "--log", "debug", "test"]);
+    expect(parsed.errorNodes).toEqual([]);
+    const verbose = parsed.command.optNodes.verbose;
+    expect(verbose.name).toBe("verbose");
+    expect(verbose.alias).toBe("verb");
+    expect(parsed.command.jsonMeta.opts).toMatchObject({
+      verbose: true,
+      verb: true,
+      "log-level": "debug",
+      log: "debug"
+    });
+  });
+
+  it("should treat prefix of an option and its alias as unique", () => {
+    const parsed = makeNc().parse(["--logl", "warn", "test"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts["log-level"]).toBe("warn");
+  });
+
+  it("should match options of parent commands and negation", () => {
+    const parsed = makeNc().parse(["build", "--min", "--no-verb"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.subCmdNodes.build.jsonMeta.opts.minify).toBe(true);
+    expect(parsed.command.jsonMeta.opts.verbose).toBe(false);
+  });
+
+  it("should prefer exact match of a parent option over prefix of a sub command option", () => {
+    const nc = new NixClap({ allowAbbreviation: true, ...noOutputExit }).init2({
+      options: { verb: { args: "<v string>" } },
+      subCommands: { build: { exec: noop, options: { verbose: {} } } }
+    });
+    const parsed = nc.parse(["build", "--verb", "hi"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts.verb).toBe("hi");
+    expect(parsed.command.subCmdNodes.build.optNodes.verbose).toBe(undefined);
+    expect(nc.parse(["build", "--verbo"]).command.subCmdNodes.build.opts.verbose).toBe(true);
+  });
+
+  it("should report ambiguous option prefix with all candidates", () => {
+    const parsed = makeNc().parse(["--ver", "test"]);
+    const error = parsed.errorNodes[0].error as AmbiguousMatchError;
+    expect(error).toBeInstanceOf(AmbiguousMatchError);
+    expect(error.message).toBe("Ambiguous option '--ver' matches: --verbose, --version");
+    expect(error.arg).toBe("ver");
+    expect(error.candidates).toEqual(["verbose", "version"]);
+  });
+
+  it("should match unique prefix of commands and keep the typed alias", () => {
+    const parsed = makeNc().parse(["bui"]);
+    expect(parsed.errorNodes).toEqual([]);
+    const build = parsed.command.subCmdNodes.build;
+    expect(build.alias).toBe("bui");
+    expect(build.jsonMeta.alias).toBe("bui");
+    expect(build.jsonMeta.name).toBe("build");
+
+    expect(makeNc().parse(["che"]).command.subCmdNodes.test.alias).toBe("che");
+  });
+
+  it("should report ambiguous command prefix with all candidates", () => {
+    const parsed = makeNc().parse(["bu"]);
+    const error = parsed.errorNodes[0].error as AmbiguousMatchError;
+    expect(error.message).toBe("Ambiguous command 'bu' matches: build, bundle");
+    expect(error.candidates).toEqual(["build", "bundle"]);
+  });
+
+  it("should not match prefix for keys of applied config", () => {
+    const nc = makeNc();
+    const parsed = nc.parse(["test"]);
+    nc.applyConfig({ verb: true, bui: { minify: true } }, parsed);
+    expect(parsed.command.optNodes.verbose).toBe(undefined);
+    expect(parsed.command.optNodes.verb.option).toBe(optUnknown);
+  });
+
+  it("should not match prefix when not enabled", () => {
+    const parsed = makeNc({ allowAbbreviation: false }).parse(["bui", "--verb"]);
+    expect(parsed.errorNodes.length).toBe(1);
+    expect(parsed.errorNodes[0].errors.map(e => e.message)).toEqual([
+      "Command 'myapp' requires a subcommand. Unknown: 'bui'.",
+      "Encountered unknown CLI option 'verb'."
+    ]);
+  });
+
+  it("should complete values of abbreviated options", async () => {
+    const nc = makeNc();
+    expect(await nc.complete(["--log=w"])).toEqual(["--log=warn"]);
+    expect(await nc.complete(["--ver=t"])).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { OptionBase } from "../../src/option-base.ts";
+import { setHelpZebra } from "../../src/xtil.ts";
+
+describe("choices", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  beforeEach(() => {
+    setHelpZebra(false);
+  });
+
+  const makeNc = () =>
+    new NixClap({ name: "myapp", completion: true, ...noOutputExit }).init2({
+      options: {
+        mode: { args: "<mode string:dev|prod>", argDefault: "dev" },
+        level: { args: "< number>", choices: ["1", "2", "3"] },
+        tags: { args: "<tags string..1,>", choices: ["a", "b"] },
+        pair: { args: "<x string:on|off> <y string>", choices: ["p", "q"] }
+      },
+      subCommands: {
+        deploy: { args: "<env string:staging|prod> [ string:fast|slow]", exec: noop }
+      }
+    });
+
+  const messages = (argv: string[]) =>
+    makeNc()
+      .parse(argv)
+      .errorNodes.flatMap(n => n.errors.map(e => e.message));
+
+  it("should parse choices from args specifier and option spec", () => {
+    expect(new OptionBase("x", { args: "<mode string:dev|prod>" }).args[0].choices).toEqual([
+      "dev",
+      "prod"
+    ]);
+    expect(new OptionBase("x", { args: "< :a|b>" }).args[0]).toMatchObject({
+      type: "string",
+      choices: ["a", "b"]
+    });
+    const pair = new OptionBase("x", { args: "<x string:on|off> <y string>", choices: ["p"] });
+    expect(pair.args.map(a => a.choices)).toEqual([["on", "off"], ["p"]]);
+    expect(pair.choices).toEqual(["on", "off", "p"]);
+    expect(new OptionBase("x", { args: "< string>" }).choices).toEqual([]);
+  });
+
+  it("should default the type of choices to string", () => {
+    expect(new OptionBase("x", { args: "<mode:dev|prod> [tags:a|b..]" }).args).toMatchObject([
+      { name: "mode", type: "string", choices: ["dev", "prod"] },
+      { name: "tags", type: "string", choices: ["a", "b"], variadic: true }
+    ]);
+    const opt = new OptionBase("x", { choices: ["dev", "prod"] });
+    expect(opt.type).toBe("string");
+    expect(opt.args[0].choices).toEqual(["dev", "prod"]);
+
+    const nc = new NixClap({ ...noOutputExit }).init2({
+      options: { env: { choices: ["dev", "prod"] } },
+      subCommands: { deploy: { args: "<target:web|api>", exec: noop } }
+    });
+    const parsed = nc.parse(["--env", "prod", "deploy", "api"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.opts.env).toBe("prod");
+    expect(parsed.command.subCmdNodes.deploy.args.target).toBe("api");
+    expect(
+      nc
+        .parse(["--env", "qa", "deploy", "db"])
+        .errorNodes.flatMap(n => n.errors.map(e => e.message))
+    ).toEqual([
+      `Invalid value 'qa' for option 'env' - expected one of: "dev", "prod"`,
+      `Invalid value 'db' for argument 'target' of command 'deploy' - expected one of: "web", "api"`
+    ]);
+  });
+
+  it("should accept valid values", () => {
+    const parsed = makeNc().parse([
+      "--mode=prod",
+      "--level",
+      "2",
+      "--tags",
+      "a",
+      "b",
+      "--pair",
+      "on",
+      "q",
+      "deploy",
+      "staging",
+      "fast"
+    ]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts).toMatchObject({
+      mode: "prod",
+      level: 2,
+      tags: ["a", "b"]
+    });
+    expect(parsed.command.subCmdNodes.deploy.jsonMeta.args.env).toBe("staging");
+  });
+
+  it("should report values that are not in choices", () => {
+    expect(messages(["--mode", "test", "--level", "5", "deploy", "prod"])).toEqual([
+      `Invalid value 'test' for option 'mode' - expected one of: "dev", "prod"`,
+      `Invalid value '5' for option 'level' - expected one of: "1", "2", "3"`
+    ]);
+    expect(messages(["--tags", "a", "c", "-.", "deploy", "prod"])).toEqual([
+      `Invalid value 'c' for option 'tags' - expected one of: "a", "b"`
+    ]);
+    expect(messages(["deploy", "dev", "medium"])).toEqual([
+      `Invalid value 'dev' for argument 'env' of command 'deploy' - expected one of: "staging", "prod"`,
+      `Invalid value 'medium' for argument of command 'deploy' - expected one of: "fast", "slow"`
+    ]);
+  });
+
+  it("should check values applied from config", () => {
+    const nc = makeNc();
+    const parsed = nc.parse(["deploy", "prod"]);
+    nc.applyConfig({ level: 3, mode: "qa" }, parsed);
+    const errors = parsed.command.getErrorNodes().flatMap(n => n.errors);
+    expect(errors.map(e => e.message)).toEqual([
+      `Invalid value 'qa' for option 'mode' - expected one of: "dev", "prod"`
+    ]);
+  });
+
+  it("should show choices in help", () => {
+    const help = makeNc().makeHelp();
+    expect(help.find(l => l.includes("--mode"))).toMatch(
+      /\[string\] \[choices: "dev", "prod"\] \[default: "dev"\]$/
+    );
+    expect(help.find(l => l.includes("--level"))).toMatch(/\[choices: "1", "2", "3"\]$/);
+  });
+
+  it("should use choices for completion", async () => {
+    const nc = makeNc();
+    expect(await nc.complete(["--mode", ""])).toEqual(["dev", "prod"]);
+    expect(await nc.complete(["--level="])).toEqual(["--level=1", "--level=2", "--level=3"]);
+    expect(await nc.complete(["deploy", "s"])).toEqual(["staging"]);
+    expect(await nc.complete(["deploy", "prod", ""])).toEqual(["fast", "slow"]);
+
+    const bash = nc.makeCompletion("bash");
+    expect(bash).toContain("compgen -W 'dev prod'");
+  });
+});
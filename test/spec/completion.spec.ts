@@ -0,0 +1,373 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { fishQuote, makeCompletion, makeCompletionData, shQuote } from "../../src/completion.ts";
+
+describe("completion", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", output: noop, exit: noop, ...config }).init2({
+      options: {
+        "log-level": { alias: "q", args: "< string>", desc: "Log level\nmore info" },
+        verbose: { alias: ["b", "verb"], desc: "Be 'verbose'" },
+        "force-cache": { alias: "f", args: "< boolean>" },
+        count: { counting: Infinity, alias: "c" },
+        port: { args: "<port number>" }
+      },
+      subCommands: {
+        build: {
+          alias: "bd",
+          desc: () => "Build it",
+          options: { minify: { desc: "minify output" } },
+          subCommands: {
+            lib: { desc: "build lib" }
+          }
+        },
+        test: {}
+      }
+    });
+
+  it("should collect completion data from the command tree", () => {
+    const nc = makeNc();
+    const data = makeCompletionData(nc._rootCommand);
+    expect(data.path).toBe("");
+    expect(data.subCommands.map(s => s.path)).toEqual(["build", "test"]);
+    expect(data.subCommands[0].alias).toEqual(["bd"]);
+    expect(data.subCommands[0].desc).toBe("Build it");
+    expect(data.subCommands[0].subCommands[0].path).toBe("build lib");
+
+    const logLevel = data.options.find(o => o.name === "log-level");
+    expect(logLevel).toEqual({
+      name: "log-level",
+      flags: ["--log-level", "-q"],
+      negations: [],
+      desc: "Log level",
+      arg: { type: "string", required: true }
+    });
+
+    const verbose = data.options.find(o => o.name === "verbose");
+    expect(verbose.flags).toEqual(["--verbose", "-b", "--verb"]);
+    expect(verbose.negations).toEqual(["--no-verbose"]);
+
+    const forceCache = data.options.find(o => o.name === "force-cache");
+    expect(forceCache.arg).toEqual({ type: "boolean", required: false, values: ["true", "false"] });
+    expect(forceCache.negations).toEqual(["--no-force-cache"]);
+
+    expect(data.options.find(o => o.name === "count").negations).toEqual([]);
+
+    // sub commands see parent options, with their own options first
+    const lib = data.subCommands[0].subCommands[0];
+    expect(lib.options.map(o => o.name)).toEqual([
+      "help",
+      "minify",
+      "log-level",
+      "verbose",
+      "force-cache",
+      "count",
+      "port"
+    ]);
+  });
+
+  it("should quote strings for shells", () => {
+    expect(shQuote("it's")).toBe(`'it'\\''s'`);
+    expect(fishQuote("it's \\")).toBe(`'it\\'s \\\\'`);
+  });
+
+  it("should generate bash completion", () => {
+    const script = makeNc().makeCompletion("bash");
+    expect(script).toContain("_myapp_completion() {");
+    expect(script).toContain(`      ':build'|':bd') cmd='build' ;;`);
+    expect(script).toContain(`      'build:lib') cmd='build lib' ;;`);
+    expect(script).toContain(
+      `    ':--force-cache'|':-f') COMPREPLY=($(compgen -W 'true false' -- "$cur")); return ;;`
+    );
+    expect(script).toContain(`    'build:--log-level'|'build:-q') return ;;`);
+    expect(script).toContain(`    'build lib') opts='--help -? -h --minify --no-minify`);
+    expect(script).toContain(`cmds='build bd test' ;;`);
+    expect(script).toContain("complete -o default -F _myapp_completion myapp");
+  });
+
+  it("should generate zsh completion", () => {
+    const script = makeNc().makeCompletion("zsh");
+    expect(script.startsWith("#compdef myapp\n_myapp_dynamic() {")).toBe(true);
+    expect(script).toContain("\n_myapp() {\n");
+    expect(script).toContain(`    ':--log-level'|':-q') _files; return ;;`);
+    expect(script).toContain(`    ':--port') _message 'number'; return ;;`);
+    expect(script).toContain(`    ':--force-cache'|':-f') compadd -- 'true' 'false'; return ;;`);
+    expect(script).toContain(`'--verbose:Be '\\''verbose'\\''' `);
+    expect(script).toContain(`'--count' '-c'`);
+    expect(script).toContain(`cmds=('build:Build it' 'bd:Build it' 'test') ;;`);
+    expect(script).toContain("compdef _myapp myapp");
+  });
+
+  it("should generate fish completion", () => {
+    const script = makeNc().makeCompletion("fish");
+    expect(script).toContain("function __myapp_at_cmd");
+    expect(script).toContain(`      case ':build' ':bd'\n        set cmd 'build'`);
+    expect(script).toContain(
+      `complete -c 'myapp' -f -n '__myapp_at_cmd \\'\\'' -a 'build' -d 'Build it'`
+    );
+    expect(script).toContain(`complete -c 'myapp' -f -n '__myapp_at_cmd \\'\\'' -a 'test'\n`);
+    expect(script).toContain(
+      `complete -c 'myapp' -n '__myapp_at_cmd \\'build\\'' -l 'log-level' -s 'q' -r -d 'Log level'`
+    );
+    expect(script).toContain(`-l 'force-cache' -s 'f' -x -a 'true false'`);
+    expect(script).toContain(`-l 'no-verbose' -d 'Be \\'verbose\\''`);
+    expect(script).toContain(`-l 'port' -x\n`);
+    expect(script).toContain(`-l 'help' -s '?' -s 'h' -d`);
+  });
+
+  it("should fail for unsupported shell", () => {
+    expect(() => makeNc().makeCompletion("csh" as any)).toThrow(
+      "Unsupported shell 'csh' for completion - expected one of: bash, zsh, fish"
+    );
+  });
+
+  it("should fail if CLI is not initialized", () => {
+    expect(() => new NixClap().makeCompletion("bash")).toThrow("CLI not initialized");
+  });
+
+  it("should use default program name", () => {
+    const nc = new NixClap().init2({});
+    expect(makeCompletion("bash", "my.app", nc._rootCommand)).toContain(
+      "complete -o default -F _my_app_completion my.app"
+    );
+    expect(nc.makeCompletion("zsh")).toContain("compdef _program program");
+  });
+
+  describe("completion command", () => {
+    const run = (argv: string[], config = {}, shellEnv?: string) => {
+      let out = "";
+      const saveShell = process.env.SHELL;
+      if (shellEnv === undefined) {
+        delete process.env.SHELL;
+      } else {
+        process.env.SHELL = shellEnv;
+      }
+      try {
+        makeNc({ completion: true, output: (s: string) => (out += s), ...config }).parse(argv);
+      } finally {
+        process.env.SHELL = saveShell;
+      }
+      return out;
+    };
+
+    it("should not add completion command unless enabled", () => {
+      expect(makeNc()._rootCommand.subCmdsBase.completion).toBeUndefined();
+    });
+
+    it("should print completion for the specified shell", () => {
+      expect(run(["completion", "fish"])).toContain("function __myapp_at_cmd");
+    });
+
+    it("should detect shell from SHELL env", () => {
+      expect(run(["completion"], {}, "/bin/zsh")).toContain("#compdef myapp");
+    });
+
+    it("should default to bash", () => {
+      expect(run(["completion"])).toContain("# bash completion for myapp");
+    });
+
+    it("should show error for unsupported shell", () => {
+      expect(run(["completion", "csh"])).toContain("Error: Unsupported shell 'csh' for completion");
+    });
+
+    it("should use custom command name", () => {
+      expect(run(["complete", "bash"], { completion: "complete" })).toContain("_myapp_completion");
+    });
+
+    it("should not override existing command", () => {
+      const nc = new NixClap({ completion: true }).init2({
+        subCommands: { completion: { desc: "mine" } }
+      });
+      expect(nc._rootCommand.subCmdsBase.completion.desc).toBe("mine");
+    });
+  });
+
+  describe("dynamic completion", () => {
+    const makeDynNc = (config = {}) =>
+      new NixClap({
+        name: "myapp",
+        output: noop,
+        exit: noop,
+        completion: true,
+        defaultCommand: "build",
+        ...config
+      }).init2({
+        options: {
+          target: { alias: "t", args: "<t string>", complete: async () => ["prod", "dev"] },
+          verbose: { alias: "v" },
+          "force-cache": { args: "< boolean>" },
+          pair: { args: "<a string> <b string>", complete: { b: () => ["b1", "b2"] } },
+          port: { args: "<port number>" }
+        },
+        subCommands: {
+          build: {
+            alias: "bd",
+            args: "<branch> [files..]",
+            complete: { branch: () => ["main", "mdev"] },
+            options: { minify: {} }
+          },
+          run: { args: "< string> <..2>", complete: { 1: () => "script" as any } },
+          deploy: { args: "<env>", complete: ctx => [`${ctx.command.name}-${ctx.argIndex}`] },
+          test: {}
+        }
+      });
+
+    it("should find target for sub commands", async () => {
+      const nc = makeDynNc();
+      const target = nc.getCompletionTarget([""]);
+      expect(target.kind).toBe("command");
+      expect(target.command.name).toBe("myapp");
+      expect(await nc.complete([""])).toEqual([
+        "build",
+        "run",
+        "deploy",
+        "test",
+        "completion",
+        "bd"
+      ]);
+      expect(await nc.complete([])).toContain("build");
+      expect(await nc.complete(["b"])).toEqual(["build", "bd"]);
+      expect(await nc.complete(["test", ""])).toEqual([]);
+    });
+
+    it("should find target for option names", async () => {
+      const nc = makeDynNc();
+      expect(nc.getCompletionTarget(["--t"]).kind).toBe("option");
+      expect(await nc.complete(["--t"])).toEqual(["--target"]);
+      expect(await nc.complete(["build", "--m"])).toEqual(["--minify"]);
+      expect(await nc.complete(["--no-"])).toEqual(["--no-verbose", "--no-force-cache"]);
+      // unknown option with = is still completing an option name
+      expect(nc.getCompletionTarget(["--zz="]).kind).toBe("option");
+      expect(nc.getCompletionTarget(["-t="]).kind).toBe("option");
+    });
+
+    it("should tell expecting option argument apart from new option", async () => {
+      const nc = makeDynNc();
+      const target = nc.getCompletionTarget(["--target", ""]);
+      expect(target.kind).toBe("option-arg");
+      expect(target.option.name).toBe("target");
+      expect(target.argIndex).toBe(0);
+      expect(await nc.complete(["--target", ""])).toEqual(["prod", "dev"]);
+      expect(await nc.complete(["-t", "d"])).toEqual(["dev"]);
+      expect(await nc.complete(["--target", "prod", "d"])).toEqual(["deploy"]);
+      expect(await nc.complete(["build", "--target", "p"])).toEqual(["prod"]);
+    });
+
+    it("should complete option argument after =", async () => {
+      const nc = makeDynNc();
+      const target = nc.getCompletionTarget(["--target=d"]);
+      expect(target.kind).toBe("option-arg");
+      expect(target.current).toBe("d");
+      expect(target.prefix).toBe("--target=");
+      expect(await nc.complete(["--target=d"])).toEqual(["--target=dev"]);
+      // option from parent command
+      expect(await nc.complete(["build", "main", "--t="])).toEqual(["--t=prod", "--t=dev"]);
+    });
+
+    it("should complete per arg of an option", async () => {
+      const nc = makeDynNc();
+      expect(await nc.complete(["--pair", ""])).toEqual([]);
+      const target = nc.getCompletionTarget(["--pair", "x", ""]);
+      expect(target.arg.name).toBe("b");
+      expect(target.argIndex).toBe(1);
+      expect(await nc.complete(["--pair", "x", ""])).toEqual(["b1", "b2"]);
+    });
+
+    it("should complete boolean and other option args without callback", async () => {
+      const nc = makeDynNc();
+      expect(await nc.complete(["--force-cache", ""])).toEqual(["true", "false"]);
+      expect(await nc.complete(["--port", ""])).toEqual([]);
+    });
+
+    it("should complete command args", async () => {
+      const nc = makeDynNc();
+      const target = nc.getCompletionTarget(["build", "m"]);
+      expect(target.kind).toBe("command-arg");
+      expect(target.command.name).toBe("build");
+      expect(target.arg.name).toBe("branch");
+      expect(await nc.complete(["build", "m"])).toEqual(["main", "mdev"]);
+      expect(await nc.complete(["bd", "main", ""])).toEqual([]);
+      expect(await nc.complete(["run", "x", ""])).toEqual(["script"]);
+      expect(await nc.complete(["run", ""])).toEqual([]);
+      expect(await nc.complete(["deploy", ""])).toEqual(["deploy-0"]);
+    });
+
+    it("should not insert default command when completing", () => {
+      const nc = makeDynNc();
+      expect(nc.getCompletionTarget(["--verbose", ""]).command.name).toBe("myapp");
+    });
+
+    it("should handle __complete with parse and parseAsync", async () => {
+      let out = "";
+      const nc = makeDynNc({ output: (s: string) => (out += s) });
+      const parsed = await nc.parseAsync(["node", "myapp", "__complete", "build", ""], 2);
+      expect(out).toBe("main\nmdev\n");
+      expect(parsed.command.name).toBe("myapp");
+      expect(parsed.command.subCmdNodes.build).toBeDefined();
+      expect(parsed.errorNodes).toEqual([]);
+
+      out = "";
+      nc.parse(["__complete", "--target", ""]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(out).toBe("prod\ndev\n");
+    });
+
+    it("should use process.argv for __complete", async () => {
+      let out = "";
+      const nc = makeDynNc({ output: (s: string) => (out += s) });
+      const saveArgv = process.argv;
+      process.argv = ["node", "myapp", "__complete", "te"];
+      try {
+        await nc.parseAsync();
+      } finally {
+        process.argv = saveArgv;
+      }
+      expect(out).toBe("test\n");
+    });
+
+    it("should fail quietly if complete callback throws", async () => {
+      let out = "";
+      const nc = new NixClap({ completion: true, output: (s: string) => (out += s) }).init2({
+        args: "<x>",
+        complete: async () => {
+          throw new Error("oops");
+        }
+      });
+      await nc.parseAsync(["__complete", ""]);
+      expect(out).toBe("");
+    });
+
+    it("should not handle __complete unless completion is enabled", () => {
+      const nc = makeDynNc({ completion: false, defaultCommand: undefined });
+      const parsed = nc.parse(["__complete", "x"]);
+      expect(parsed.errorNodes.length).toBe(1);
+    });
+
+    it("should invoke __complete from the scripts for dynamic completion", () => {
+      const nc = makeDynNc();
+      const bash = nc.makeCompletion("bash");
+      expect(bash).toContain(
+        `_myapp_dynamic() {\n  local IFS=$'\\n'\n  COMPREPLY=($(myapp __complete "\${COMP_WORDS[@]:1:COMP_CWORD}"))\n}`
+      );
+      expect(bash).toContain(`    ':--target'|':-t') _myapp_dynamic; return ;;`);
+      expect(bash).toContain(`cmds=''; dyn=1 ;;`);
+      expect(bash).toContain(`  elif [[ -n "$dyn" ]]; then\n    _myapp_dynamic`);
+
+      const zsh = nc.makeCompletion("zsh");
+      expect(zsh).toContain(`myapp __complete "\${(@)words[2,CURRENT]}"`);
+      expect(zsh).toContain(`    ':--target'|':-t') _myapp_dynamic; return ;;`);
+      expect(zsh).toContain(`cmds=(); dyn=1 ;;`);
+
+      const fish = nc.makeCompletion("fish");
+      expect(fish).toContain(
+        "function __myapp_dynamic\n  myapp __complete (commandline -opc)[2..-1] (commandline -ct)\nend"
+      );
+      expect(fish).toContain(`-l 'target' -s 't' -x -a '(__myapp_dynamic)'`);
+      expect(fish).toContain(
+        `complete -c 'myapp' -f -n '__myapp_at_cmd \\'build\\'' -a '(__myapp_dynamic)'`
+      );
+    });
+  });
+});
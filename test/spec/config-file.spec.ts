@@ -0,0 +1,195 @@
+import Fs from "fs";
+import Os from "os";
+import Path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { findConfigFiles, loadConfigFile } from "../../src/config-file.ts";
+import { setHelpZebra } from "../../src/xtil.ts";
+
+describe("config file", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+  let tmpDir: string;
+  let home: string;
+  let project: string;
+  let cwd: string;
+
+  const writeJson = (file: string, data: any) => {
+    Fs.writeFileSync(file, typeof data === "string" ? data : JSON.stringify(data));
+  };
+
+  beforeEach(() => {
+    setHelpZebra(false);
+    tmpDir = Fs.mkdtempSync(Path.join(Os.tmpdir(), "nix-clap-cfg-"));
+    home = Path.join(tmpDir, "home");
+    project = Path.join(tmpDir, "project");
+    cwd = Path.join(project, "packages", "app");
+    Fs.mkdirSync(home);
+    Fs.mkdirSync(cwd, { recursive: true });
+  });
+
+  afterEach(() => {
+    Fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const makeNc = (config = {}) =>
+    new NixClap({
+      name: "myapp",
+      ...noOutputExit,
+      configFile: { cwd, home },
+      ...config
+    }).init2({
+      options: {
+        "log-level": { args: "< string>", argDefault: "info" },
+        port: { args: "< number>" },
+        token: { args: "< string>", required: true },
+        tags: { args: "<tags string..1,>" }
+      },
+      subCommands: {
+        build: {
+          alias: "b",
+          options: { minify: {}, "out-dir": { args: "< string>" } }
+        },
+        test: {}
+      }
+    });
+
+  it("should find config files from cwd up to root and then home", () => {
+    writeJson(Path.join(home, ".myapprc"), {});
+    writeJson(Path.join(project, "package.json"), {});
+    writeJson(Path.join(project, ".myapprc.json"), {});
+    writeJson(Path.join(cwd, ".myapprc"), {});
+
+    expect(findConfigFiles("myapp", cwd, home)).toEqual([
+      Path.join(home, ".myapprc"),
+      Path.join(project, "package.json"),
+      Path.join(project, ".myapprc.json"),
+      Path.join(cwd, ".myapprc")
+    ]);
+    expect(findConfigFiles("myapp", cwd, false)).toEqual([
+      Path.join(project, "package.json"),
+      Path.join(project, ".myapprc.json"),
+      Path.join(cwd, ".myapprc")
+    ]);
+    // home that's also an ancestor is searched only once
+    expect(findConfigFiles("myapp", cwd, project)).toEqual([
+      Path.join(project, "package.json"),
+      Path.join(project, ".myapprc.json"),
+      Path.join(cwd, ".myapprc")
+    ]);
+  });
+
+  it("should load config from rc files and package.json key", () => {
+    const pkgFile = Path.join(project, "package.json");
+    writeJson(pkgFile, { name: "x" });
+    expect(loadConfigFile(pkgFile, "myapp")).toBe(undefined);
+    writeJson(pkgFile, { name: "x", myapp: { port: 1 } });
+    expect(loadConfigFile(pkgFile, "myapp")).toEqual({ port: 1 });
+
+    const schemaRc = Path.join(cwd, ".myapprc.json");
+    writeJson(schemaRc, { $schema: "./myapp.schema.json", port: 2 });
+    expect(loadConfigFile(schemaRc, "myapp")).toEqual({ port: 2 });
+
+    const rcFile = Path.join(cwd, ".myapprc");
+    writeJson(rcFile, "{ bad json");
+    expect(() => loadConfigFile(rcFile, "myapp")).toThrow(`Failed to load config file ${rcFile}: `);
+    writeJson(rcFile, [1]);
+    expect(() => loadConfigFile(rcFile, "myapp")).toThrow(
+      `Config in file ${rcFile} is not an object`
+    );
+  });
+
+  it("should merge config files with precedence and record the file of each value", () => {
+    const homeRc = Path.join(home, ".myapprc");
+    const pkgFile = Path.join(project, "package.json");
+    const cwdRc = Path.join(cwd, ".myapprc.json");
+    writeJson(homeRc, { token: "home-token", port: 1 });
+    writeJson(pkgFile, { myapp: { port: 2, tags: ["a", "b"] } });
+    writeJson(cwdRc, { port: 3 });
+
+    const parsed = makeNc().parse([]);
+    expect(parsed.errorNodes).toEqual([]);
+    const meta = parsed.command.jsonMeta;
+    expect(meta.opts).toMatchObject({
+      token: "home-token",
+      port: 3,
+      tags: ["a", "b"],
+      "log-level": "info"
+    });
+    expect(meta.source).toMatchObject({
+      token: "user",
+      port: "user",
+      tags: "user",
+      "log-level": "default"
+    });
+    const optNodes = parsed.command.optNodes;
+    expect(optNodes.token.sourceFile).toBe(homeRc);
+    expect(optNodes.port.sourceFile).toBe(cwdRc);
+    expect(optNodes.tags.sourceFile).toBe(pkgFile);
+    expect(optNodes["log-level"].sourceFile).toBe(undefined);
+  });
+
+  it("should not override options from command line", () => {
+    writeJson(Path.join(cwd, ".myapprc"), { token: "rc", port: 3 });
+    const parsed = makeNc().parse(["--port", "99"]);
+    const meta = parsed.command.jsonMeta;
+    expect(meta.opts.port).toBe(99);
+    expect(meta.source.port).toBe("cli");
+    expect(meta.opts.token).toBe("rc");
+  });
+
+  it("should apply nested keys to invoked sub commands", () => {
+    const rc = Path.join(cwd, ".myapprc");
+    writeJson(rc, {
+      token: "t",
+      b: { minify: true, "out-dir": "dist" },
+      test: { verbose: true }
+    });
+    const parsed = makeNc().parse(["build"]);
+    expect(parsed.errorNodes).toEqual([]);
+    const build = parsed.command.subCmdNodes.build;
+    expect(build.jsonMeta.opts).toMatchObject({ minify: true, outDir: "dist" });
+    expect(build.optNodes.minify.sourceFile).toBe(rc);
+    expect(parsed.command.subCmdNodes.test).toBe(undefined);
+    expect(parsed.command.optNodes.b).toBe(undefined);
+  });
+
+  it("should use the file from --config instead of discovering", () => {
+    writeJson(Path.join(cwd, ".myapprc"), { token: "rc", port: 3 });
+    writeJson(Path.join(project, "custom.json"), { token: "custom" });
+    const parsed = makeNc().parse(["--config", "../../custom.json"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts.token).toBe("custom");
+    expect(parsed.command.jsonMeta.opts.port).toBe(undefined);
+    expect(parsed.command.optNodes.token.sourceFile).toBe(Path.join(project, "custom.json"));
+  });
+
+  it("should report errors loading config files", () => {
+    const parsed = makeNc().parse(["--config", "missing.json"]);
+    expect(parsed.errorNodes[0].error.message).toContain(
+      `Failed to load config file ${Path.join(cwd, "missing.json")}`
+    );
+  });
+
+  it("should use program name, custom option name, and default cwd and home", () => {
+    const nc = new NixClap({ ...noOutputExit, configFile: { option: "rc" } }).init2({
+      options: { port: { args: "< number>" } }
+    });
+    const parsed = nc.parse(["--rc", Path.join(cwd, "x.json")]);
+    expect(parsed.errorNodes[0].error.message).toContain("Failed to load config file");
+    expect(nc.makeHelp().find(l => l.includes("--rc"))).toContain("Path to config file");
+
+    const nc2 = new NixClap({ ...noOutputExit, configFile: true }).init2({
+      options: { config: { args: "< number>" } }
+    });
+    expect(nc2.parse(["--config", "5"]).command.jsonMeta.opts.config).toBe(5);
+  });
+
+  it("should not add config option when it's disabled", () => {
+    writeJson(Path.join(cwd, ".otherrc"), { port: 5 });
+    const nc = makeNc({ configFile: { name: "other", cwd, home: false, option: false } });
+    const parsed = nc.parse(["--token", "t"]);
+    expect(parsed.command.jsonMeta.opts.port).toBe(5);
+    expect(nc.makeHelp().find(l => l.includes("--config"))).toBe(undefined);
+  });
+});
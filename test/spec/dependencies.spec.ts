@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("option dependencies", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+  let saveEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    saveEnv = process.env;
+    process.env = { ...saveEnv };
+  });
+
+  afterEach(() => {
+    process.env = saveEnv;
+  });
+
+  const makeNc = () =>
+    new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      options: {
+        "tls-cert": { args: "< string>", requires: "tls-key" },
+        "tls-key": { args: "< string>" },
+        ci: { implies: { color: false, reporter: "dot" } },
+        color: { argDefault: "true", env: "MYAPP_COLOR" },
+        reporter: { args: "< string>", argDefault: "spec" },
+        mode: { args: "< string>", argDefault: "dev" },
+        token: { args: "< string>", requiredIf: "mode=prod" },
+        user: { args: "< string>" },
+        password: { args: "< string>", requiredIf: "user" }
+      },
+      subCommands: {
+        deploy: {
+          exec: noop,
+          options: {
+            fast: { implies: { ci: true, "skip-tests": true } },
+            "skip-tests": { implies: { fast: true } },
+            target: {
+              args: "< string>",
+              requiredIf: (opts, cmd) => opts.mode === "prod" && cmd.name === "deploy"
+            },
+            force: { requires: ["ci", "user"] }
+          }
+        }
+      }
+    });
+
+  const messages = (argv: string[]) =>
+    makeNc()
+      .parse(argv)
+      .errorNodes.flatMap(n => n.errors.map(e => `${n.name}: ${e.message}`));
+
+  it("should report options that require other options", () => {
+    expect(messages(["--tls-cert", "a"])).toEqual(["myapp: Option --tls-cert requires --tls-key"]);
+    expect(messages(["--tls-cert", "a", "--tls-key", "b"])).toEqual([]);
+    expect(messages(["deploy", "--force", "--ci"])).toEqual([
+      "deploy: Option --force requires --user"
+    ]);
+  });
+
+  it("should report options required by conditions", () => {
+    expect(messages(["--mode", "prod"])).toEqual([
+      "myapp: Option --token is required when --mode=prod"
+    ]);
+    expect(messages(["--mode", "prod", "--token", "t"])).toEqual([]);
+    expect(messages(["--user", "me"])).toEqual([
+      "myapp: Option --password is required when --user"
+    ]);
+    expect(messages(["--user", "me", "--password", "x"])).toEqual([]);
+    expect(messages(["--mode", "prod", "--token", "t", "deploy"])).toEqual([
+      "deploy: Option --target is required"
+    ]);
+    expect(messages(["deploy"])).toEqual([]);
+  });
+
+  it("should apply implied values with implied source", () => {
+    const parsed = makeNc().parse(["--ci"]);
+    expect(parsed.errorNodes).toEqual([]);
+    const meta = parsed.command.jsonMeta;
+    expect(meta.opts).toMatchObject({ ci: true, color: false, reporter: "dot" });
+    expect(meta.source).toMatchObject({ ci: "cli", color: "implied", reporter: "implied" });
+  });
+
+  it("should not override values from cli or env with implied values", () => {
+    process.env.MYAPP_COLOR = "true";
+    const nc = makeNc();
+    const parsed = nc.parse(["--ci", "--reporter", "tap"]);
+    const meta = parsed.command.jsonMeta;
+    expect(meta.opts).toMatchObject({ color: true, reporter: "tap" });
+    expect(meta.source).toMatchObject({ color: "env", reporter: "cli" });
+
+    nc.applyConfig({ reporter: "json" }, parsed);
+    expect(parsed.command.optNodes.reporter.source).toBe("cli");
+  });
+
+  it("should not override implied values with config", () => {
+    const nc = makeNc();
+    const parsed = nc.parse(["--ci"]);
+    nc.applyConfig({ reporter: "json" }, parsed);
+    expect(parsed.command.jsonMeta.opts.reporter).toBe("dot");
+  });
+
+  it("should apply implied values to parent commands and chains", () => {
+    const parsed = makeNc().parse(["deploy", "--fast"]);
+    expect(parsed.errorNodes).toEqual([]);
+    const deploy = parsed.command.subCmdNodes.deploy.jsonMeta;
+    expect(deploy.opts).toMatchObject({ fast: true, "skip-tests": true });
+    expect(deploy.source).toMatchObject({ fast: "cli", "skip-tests": "implied" });
+    const root = parsed.command.jsonMeta;
+    expect(root.opts).toMatchObject({ ci: true, color: false, reporter: "dot" });
+    expect(root.source).toMatchObject({ ci: "implied", color: "implied" });
+  });
+
+  it("should ignore implied options that don't exist", () => {
+    const nc = new NixClap({ ...noOutputExit }).init2({
+      options: { ci: { implies: { nope: true } } }
+    });
+    const parsed = nc.parse(["--ci"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.optNodes.nope).toBe(undefined);
+  });
+});
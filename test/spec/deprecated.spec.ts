@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { DeprecationNotice } from "../../src/base.ts";
+
+describe("deprecated options, aliases and commands", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) => {
+    const warnings: string[] = [];
+    const execs: Record<string, any>[] = [];
+    const nc = new NixClap({
+      name: "myapp",
+      helpZebra: false,
+      output: noop,
+      warn: s => warnings.push(s),
+      exit: noop,
+      ...config
+    }).init2({
+      options: {
+        output: {
+          alias: ["o", "out", "O"],
+          args: "<dir string>",
+          deprecatedAliases: { out: {}, O: "-O is going away, use -o" }
+        },
+        "out-dir": { args: "<dir string>", deprecated: { replacement: "output" } },
+        quiet: { alias: "q", deprecated: "Quiet mode is going away in v3" },
+        "log-level": { args: "<n number>" },
+        verbosity: { deprecated: { replacement: "log-level", message: "use --log-level" } }
+      },
+      subCommands: {
+        build: { alias: "b", exec: cmd => execs.push(cmd.rootCmd.opts) },
+        compile: { deprecated: { replacement: "build" }, exec: noop },
+        remove: {
+          alias: ["rm", "del"],
+          deprecatedAliases: { del: { replacement: "rm" } },
+          exec: noop
+        }
+      }
+    });
+    return { nc, warnings, execs };
+  };
+
+  it("should warn and remap a deprecated option to its replacement", () => {
+    const { nc, warnings, execs } = makeNc();
+    nc.parse(["build", "--out-dir", "dist", "--verbosity=3"]);
+    expect(warnings).toEqual([
+      "Warning: Option --out-dir is deprecated, use --output instead.\n",
+      "Warning: use --log-level\n"
+    ]);
+    expect(execs[0]).toMatchObject({ output: "dist", logLevel: 3 });
+    expect(execs[0]).not.toHaveProperty("outDir");
+    expect(execs[0]).not.toHaveProperty("verbosity");
+  });
+
+  it("should warn about a deprecated option when its replacement is also used", () => {
+    const { nc, warnings, execs } = makeNc();
+    nc.parse(["--out-dir", "a", "--output", "b", "--verbosity", "1", "--out-dir", "c", "build"]);
+    expect(warnings).toEqual([
+      "Warning: Option --out-dir is deprecated, use --output instead.\n",
+      "Warning: use --log-level\n",
+      "Warning: Option --out-dir is deprecated, use --output instead.\n"
+    ]);
+    expect(execs[0]).toMatchObject({ output: "c", logLevel: 1 });
+
+    warnings.length = 0;
+    nc.parse(["--verbosity", "5", "--log-level", "6", "build"]);
+    expect(warnings).toEqual(["Warning: use --log-level\n"]);
+    expect(execs[1].logLevel).toBe(6);
+  });
+
+  it("should warn about a deprecated option without replacement", () => {
+    const { nc, warnings, execs } = makeNc();
+    nc.parse(["-q", "b"]);
+    expect(warnings).toEqual(["Warning: Quiet mode is going away in v3\n"]);
+    expect(execs[0].quiet).toBe(true);
+  });
+
+  it("should warn about deprecated aliases", () => {
+    const { nc, warnings } = makeNc();
+    nc.parse(["--out", "x", "del"]);
+    expect(warnings).toEqual([
+      "Warning: Option alias --out is deprecated, use --output instead.\n",
+      "Warning: Command alias 'del' is deprecated, use 'rm' instead.\n"
+    ]);
+
+    warnings.length = 0;
+    nc.parse(["-O", "x", "b"]);
+    expect(warnings).toEqual(["Warning: -O is going away, use -o\n"]);
+
+    warnings.length = 0;
+    nc.parse(["-o", "x", "rm", "--output", "y"]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("should write warnings with warn and not with output", () => {
+    const outputs: string[] = [];
+    const { nc, warnings } = makeNc({ output: (s: string) => outputs.push(s) });
+    nc.parse(["-q", "--help=json"]);
+    expect(warnings).toEqual(["Warning: Quiet mode is going away in v3\n"]);
+    expect(JSON.parse(outputs.join("")).program).toBe("myapp");
+  });
+
+  it("should warn about a deprecated command", () => {
+    const { nc, warnings } = makeNc();
+    nc.parse(["compile"]);
+    expect(warnings).toEqual(["Warning: Command 'compile' is deprecated, use 'build' instead.\n"]);
+  });
+
+  it("should emit deprecated event with the notices", async () => {
+    const notices: DeprecationNotice[] = [];
+    const { nc, warnings } = makeNc({
+      handlers: { deprecated: (n: unknown) => notices.push(n as DeprecationNotice) }
+    });
+    await nc.parseAsync(["--out-dir", "x", "del"]);
+    expect(warnings).toEqual([]);
+    expect(notices).toEqual([
+      {
+        type: "option",
+        name: "out-dir",
+        replacement: "output",
+        message: "Option --out-dir is deprecated, use --output instead."
+      },
+      {
+        type: "command",
+        name: "remove",
+        alias: "del",
+        replacement: "rm",
+        message: "Command alias 'del' is deprecated, use 'rm' instead."
+      }
+    ]);
+  });
+
+  it("should not warn for deprecated options from config", () => {
+    const { nc, warnings } = makeNc({ skipExec: true });
+    const parsed = nc.parse(["build"]);
+    parsed.command.applyConfig({ "out-dir": "x" });
+    expect(parsed.command.opts.output).toBe("x");
+    expect(parsed.command.getDeprecations()).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("should tag deprecated entries and leave out deprecated aliases in help", () => {
+    const { nc } = makeNc();
+    const help = nc.makeHelp();
+    expect(help.find(l => l.startsWith("  --output, -o "))).toBeTruthy();
+    expect(help.find(l => l.includes("--out "))).toBe(undefined);
+    expect(help.find(l => l.startsWith("  --out-dir"))).toContain("[deprecated] [string]");
+    expect(help.find(l => l.startsWith("  --quiet, -q"))).toMatch(/\[deprecated\]$/);
+    expect(help.find(l => l.startsWith("  compile"))).toMatch(/\[deprecated\]$/);
+    expect(help.find(l => l.startsWith("  remove"))).toMatch(/\[aliases: rm\]$/);
+    expect(nc.makeHelpModel().commands[1].deprecated).toBe(
+      "Command 'compile' is deprecated, use 'build' instead."
+    );
+  });
+
+  it("should fail init if the replacement is not an option", () => {
+    expect(() =>
+      new NixClap().init2({ options: { old: { deprecated: { replacement: "new" } } } })
+    ).toThrow("Option old is deprecated for new, which is not an option of the command");
+  });
+});
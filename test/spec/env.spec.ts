@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { OptionBase } from "../../src/option-base.ts";
+import { setHelpZebra } from "../../src/xtil.ts";
+
+describe("env binding", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+  let saveEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    saveEnv = process.env;
+    process.env = { ...saveEnv };
+    setHelpZebra(false);
+  });
+
+  afterEach(() => {
+    process.env = saveEnv;
+  });
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", envPrefix: "MYAPP", ...noOutputExit, ...config }).init2({
+      options: {
+        "log-level": { alias: "q", args: "< string>", argDefault: "info", env: true },
+        port: { args: "< number>", env: "PORT" },
+        verbose: { env: true },
+        tags: { args: "<tags string..1,>", env: "MYAPP_TAGS" },
+        token: { args: "< string>", required: true, env: "MYAPP_TOKEN" },
+        other: { args: "< string>" }
+      },
+      subCommands: {
+        build: {
+          options: { "out-dir": { args: "< string>", env: true } }
+        }
+      }
+    });
+
+  it("should generate env names", () => {
+    expect(new OptionBase("logLevel", { env: true }).envName("APP")).toBe("APP_LOG_LEVEL");
+    expect(new OptionBase("log-level", { env: true }).envName()).toBe("LOG_LEVEL");
+    expect(new OptionBase("x", { env: "FOO" }).envName("APP")).toBe("FOO");
+    expect(new OptionBase("x", { env: false }).envName("APP")).toBe(undefined);
+    expect(new OptionBase("x", {}).envName("APP")).toBe(undefined);
+  });
+
+  it("should fill unset options from env with coercion", () => {
+    process.env.MYAPP_LOG_LEVEL = "debug";
+    process.env.PORT = "8080";
+    process.env.MYAPP_VERBOSE = "false";
+    process.env.MYAPP_TAGS = "a, b,c";
+    process.env.MYAPP_TOKEN = "secret";
+    process.env.MYAPP_OUT_DIR = "dist";
+
+    const parsed = makeNc().parse(["build"]);
+    expect(parsed.errorNodes).toEqual([]);
+    const root = parsed.command.jsonMeta;
+    expect(root.opts).toMatchObject({
+      "log-level": "debug",
+      port: 8080,
+      verbose: false,
+      tags: ["a", "b", "c"],
+      token: "secret"
+    });
+    expect(root.source).toMatchObject({
+      "log-level": "env",
+      port: "env",
+      verbose: "env",
+      tags: "env",
+      token: "env"
+    });
+    expect(parsed.command.subCmdNodes.build.jsonMeta.opts.outDir).toBe("dist");
+    expect(parsed.command.subCmdNodes.build.jsonMeta.source["out-dir"]).toBe("env");
+  });
+
+  it("should tell the variable of an invalid value from env", () => {
+    process.env.PORT = "abc";
+    const parsed = makeNc().parse(["--token", "t"]);
+    expect(parsed.errorNodes.flatMap(n => n.errors.map(e => e.message))).toEqual([
+      "Invalid value 'abc' for option 'port' - expected a number (from env PORT)"
+    ]);
+    expect(makeNc().parse(["--port", "abc", "--token", "t"]).errorNodes[0].error.message).toBe(
+      "Invalid value 'abc' for option 'port' - expected a number"
+    );
+  });
+
+  it("should give cli priority over env", () => {
+    process.env.MYAPP_LOG_LEVEL = "debug";
+    process.env.PORT = "8080";
+    const parsed = makeNc().parse(["-q", "warn", "--port=99", "--token", "t"]);
+    const meta = parsed.command.jsonMeta;
+    expect(meta.opts["log-level"]).toBe("warn");
+    expect(meta.opts.port).toBe(99);
+    expect(meta.source["log-level"]).toBe("cli");
+  });
+
+  it("should give env priority over user config and default", () => {
+    process.env.PORT = "8080";
+    const nc = makeNc();
+    const parsed = nc.parse(["--token", "t"]);
+    nc.applyConfig({ port: 3000, other: "x", "log-level": "error" }, parsed);
+    const meta = parsed.command.jsonMeta;
+    expect(meta.opts.port).toBe(8080);
+    expect(meta.source.port).toBe("env");
+    expect(meta.opts.other).toBe("x");
+    expect(meta.source.other).toBe("user");
+    expect(meta.opts["log-level"]).toBe("error");
+    expect(meta.source["log-level"]).toBe("user");
+  });
+
+  it("should use defaults and report missing required options without env", () => {
+    const parsed = makeNc().parse([]);
+    expect(parsed.command.jsonMeta.opts["log-level"]).toBe("info");
+    expect(parsed.command.jsonMeta.source["log-level"]).toBe("default");
+    expect(parsed.errorNodes[0].error.message).toBe("missing these required options token");
+  });
+
+  it("should override defaults applied to the default command", () => {
+    process.env.MYAPP_OUT_DIR = "env-dist";
+    const nc = new NixClap({ envPrefix: "MYAPP", defaultCommand: "build", ...noOutputExit }).init2({
+      subCommands: {
+        build: {
+          exec: noop,
+          options: { "out-dir": { args: "< string>", argDefault: "dist", env: true } }
+        }
+      }
+    });
+    const parsed = nc.parse([]);
+    const build = parsed.command.subCmdNodes.build.jsonMeta;
+    expect(build.opts["out-dir"]).toBe("env-dist");
+    expect(build.source["out-dir"]).toBe("env");
+  });
+
+  it("should show the bound variable in help", () => {
+    const help = makeNc().makeHelp();
+    expect(help.find(l => l.includes("--log-level"))).toMatch(
+      /\[string\] \[default: "info"\] \[env: MYAPP_LOG_LEVEL\]$/
+    );
+    expect(help.find(l => l.includes("--port"))).toContain("[env: PORT]");
+    expect(help.find(l => l.includes("--other"))).not.toContain("[env:");
+  });
+});
@@ -0,0 +1,203 @@
+import Fs from "fs";
+import Os from "os";
+import Path from "path";
+import { describe, it, expect } from "vitest";
+import { NixClap, ParseResult } from "../../src/nix-clap.ts";
+import { MissingRequiredOptionError, NixClapError } from "../../src/base.ts";
+
+describe("NixClapError", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", output: noop, exit: noop, ...config }).init2({
+      options: {
+        level: { args: "<n number>", min: 1 },
+        mode: { args: "< mode>", customTypes: { mode: /^(dev|prod)$/ } },
+        json: { conflicts: ["table"] },
+        table: {},
+        token: { args: "<t string>", requiredIf: "mode=prod" },
+        "tls-cert": { args: "<file string>", requires: ["tls-key"] },
+        "tls-key": { args: "<file string>" },
+        port: { args: "<p number>", validate: v => v !== 22 || "Port 22 is reserved" }
+      },
+      subCommands: {
+        db: {
+          subCommands: {
+            migrate: {
+              args: "<version string>",
+              options: { to: { args: "<t string>" } },
+              exec: noop
+            }
+          }
+        },
+        build: { exec: noop }
+      }
+    });
+
+  const errorsOf = (parsed: ParseResult) =>
+    (parsed.errorNodes || []).flatMap(n => n.errors) as NixClapError[];
+
+  const infoOf = (err: NixClapError) => ({
+    code: err.code,
+    cmdPath: err.cmdPath,
+    option: err.option,
+    argIndex: err.argIndex
+  });
+
+  it("should have code, command path, option and arg index", () => {
+    const errors = errorsOf(makeNc().parse(["db", "migrate", "1", "--bad", "--to"]));
+    expect(errors.every(e => e instanceof NixClapError)).toBe(true);
+    expect(errors.map(infoOf)).toEqual([
+      { code: "UNKNOWN_OPTION", cmdPath: ["db", "migrate"], option: "bad", argIndex: 3 },
+      { code: "MISSING_ARG", cmdPath: ["db", "migrate"], option: "to", argIndex: 4 }
+    ]);
+    expect(errorsOf(makeNc().parse(["--level", "--json", "build"])).map(infoOf)).toEqual([
+      { code: "MISSING_ARG", cmdPath: [], option: "level", argIndex: 0 }
+    ]);
+  });
+
+  it("should have codes for invalid values", () => {
+    const errors = errorsOf(makeNc().parse(["--level", "0", "build", "--mode", "test"]));
+    expect(errors.map(infoOf)).toEqual([
+      { code: "INVALID_VALUE", cmdPath: [], option: "level", argIndex: 1 },
+      { code: "INVALID_VALUE", cmdPath: [], option: "mode", argIndex: 4 }
+    ]);
+  });
+
+  it("should have codes for missing args, commands and unknown commands and args", () => {
+    const parsed = makeNc().parse(["db", "migrate"]);
+    expect(errorsOf(parsed).map(infoOf)).toEqual([
+      { code: "MISSING_ARG", cmdPath: ["db", "migrate"], option: undefined, argIndex: 1 }
+    ]);
+
+    const unknown = errorsOf(makeNc({ allowUnknownCommand: false }).parse(["deploy"]));
+    expect(unknown.map(e => e.code)).toEqual(["UNKNOWN_COMMAND"]);
+    const extra = errorsOf(makeNc().parse(["db", "migrate", "1", "2"]));
+    expect(extra.map(infoOf)).toEqual([
+      { code: "UNKNOWN_ARG", cmdPath: ["db", "migrate"], option: undefined, argIndex: 3 }
+    ]);
+
+    const outputs: string[] = [];
+    makeNc({ output: (s: string) => outputs.push(s) }).parse(["db"]);
+    expect(outputs.join("")).toContain("Error: No command given");
+  });
+
+  it("should have codes for conflicts and dependencies", () => {
+    const errors = errorsOf(
+      makeNc().parse(["--json", "--table", "--mode", "prod", "--tls-cert", "a.pem", "build"])
+    );
+    expect(errors.map(infoOf)).toEqual([
+      { code: "CONFLICT", cmdPath: [], option: "json", argIndex: undefined },
+      { code: "MISSING_REQUIRED_OPTION", cmdPath: [], option: "token", argIndex: undefined },
+      { code: "MISSING_DEPENDENCY", cmdPath: [], option: "tls-cert", argIndex: undefined }
+    ]);
+  });
+
+  it("should list the missing required options", () => {
+    const nc = new NixClap({ output: noop, exit: noop }).init2({
+      options: { user: { args: "<u string>", required: true }, pass: { required: true } }
+    });
+    const [err] = errorsOf(nc.parse([]));
+    expect(err).toBeInstanceOf(MissingRequiredOptionError);
+    expect(err.code).toBe("MISSING_REQUIRED_OPTION");
+    expect((err as MissingRequiredOptionError).options).toEqual(["user", "pass"]);
+    expect(err.option).toBe("user");
+  });
+
+  it("should have codes for validation failures with parseAsync", async () => {
+    const nc = new NixClap({ output: noop, exit: noop }).init2({
+      subCommands: {
+        build: {
+          options: { name: { args: "<n string>", validate: async v => v !== "x" || "taken" } },
+          exec: noop
+        }
+      }
+    });
+    const errors = errorsOf(await nc.parseAsync(["build", "--name", "x"]));
+    expect(errors.map(infoOf)).toEqual([
+      { code: "VALIDATION_FAILED", cmdPath: ["build"], option: "name", argIndex: undefined }
+    ]);
+    expect(errorsOf(makeNc().parse(["--port", "22", "build"]))[0].code).toBe("VALIDATION_FAILED");
+  });
+
+  it("should wrap errors thrown or rejected by validators with the cause", async () => {
+    const thrown = new Error("boom");
+    const nc = new NixClap({ output: noop, exit: noop }).init2({
+      options: {
+        sync: { args: "<s string>", validate: () => Promise.reject(thrown) },
+        name: {
+          args: "<n string>",
+          validate: () => {
+            throw thrown;
+          }
+        }
+      }
+    });
+    const errors = errorsOf(await nc.parseAsync(["--name", "x", "--sync", "y"]));
+    expect(errors.map(infoOf)).toEqual([
+      { code: "VALIDATION_FAILED", cmdPath: [], option: "name", argIndex: undefined },
+      { code: "VALIDATION_FAILED", cmdPath: [], option: "sync", argIndex: undefined }
+    ]);
+    expect(errors.map(e => [e.message, e.cause])).toEqual([
+      ["boom", thrown],
+      ["boom", thrown]
+    ]);
+  });
+
+  it("should wrap errors from custom types and config files with the cause", () => {
+    const thrown = new Error("bad port");
+    const nc = new NixClap({ output: noop, exit: noop, configFile: true }).init2({
+      options: {
+        port: {
+          args: "< port>",
+          customTypes: {
+            port: () => {
+              throw thrown;
+            }
+          }
+        }
+      }
+    });
+    const [err] = errorsOf(nc.parse(["--port", "1"]));
+    expect(infoOf(err)).toEqual({
+      code: "INVALID_VALUE",
+      cmdPath: [],
+      option: "port",
+      argIndex: 1
+    });
+    expect(err.message).toBe("bad port");
+    expect(err.cause).toBe(thrown);
+
+    const [configErr] = errorsOf(nc.parse(["--config", "/nonexistent/x.json"]));
+    expect(configErr.code).toBe("CONFIG_FILE");
+    expect((configErr.cause as NodeJS.ErrnoException).code).toBe("ENOENT");
+  });
+
+  it("should have indexes in the argv before response files are expanded", () => {
+    const tmpDir = Fs.mkdtempSync(Path.join(Os.tmpdir(), "nix-clap-err-"));
+    try {
+      const missing = Path.join(tmpDir, "missing.txt");
+      const errors = errorsOf(
+        makeNc({ responseFiles: true }).parse(["node", "myapp", "build", `@${missing}`], 2)
+      );
+      expect(infoOf(errors[0])).toEqual({
+        code: "RESPONSE_FILE",
+        cmdPath: [],
+        option: undefined,
+        argIndex: 3
+      });
+
+      const file = Path.join(tmpDir, "args.txt");
+      Fs.writeFileSync(file, "--level 1\n--bad");
+      const fromFile = errorsOf(
+        makeNc({ responseFiles: true }).parse(["node", "myapp", `@${file}`, "--level", "0"], 2)
+      );
+      expect(fromFile.map(infoOf)).toEqual([
+        { code: "UNKNOWN_OPTION", cmdPath: [], option: "bad", argIndex: 2 },
+        { code: "INVALID_VALUE", cmdPath: [], option: "level", argIndex: 4 }
+      ]);
+    } finally {
+      Fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
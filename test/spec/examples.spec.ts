@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("examples and epilog", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  const makeNc = () =>
+    new NixClap({ name: "myapp", help: false, helpZebra: false, ...noOutputExit }).init2({
+      options: { verbose: { alias: "v" } },
+      examples: [
+        { cmd: "$0 build --minify", desc: "minified build" },
+        { cmd: "$0 -v copy 'my file.txt' backup.txt" }
+      ],
+      epilog: () => "See https://example.com/docs for more.\nRun $0 --version for version.\n",
+      subCommands: {
+        build: {
+          exec: noop,
+          options: { minify: {} },
+          examples: [{ cmd: "myapp build", desc: "build" }],
+          epilog: "Builds go to dist"
+        },
+        copy: { args: "<src> <dest>", exec: noop }
+      }
+    });
+
+  it("should show examples and epilog after options in help", () => {
+    expect(makeNc().makeHelp()).toEqual([
+      "",
+      "Usage: myapp <command>",
+      "",
+      "Commands:",
+      "  build",
+      "  copy <src> <dest>",
+      "",
+      "Options:",
+      "  --verbose, -v",
+      "",
+      "Examples:",
+      "  myapp build --minify                    minified build",
+      "  myapp -v copy 'my file.txt' backup.txt",
+      "",
+      "See https://example.com/docs for more.\nRun myapp --version for version."
+    ]);
+    expect(makeNc().makeHelp("build").slice(-6)).toEqual([
+      "  --verbose, -v",
+      "",
+      "Examples:",
+      "  myapp build  build",
+      "",
+      "Builds go to dist"
+    ]);
+    expect(makeNc().makeHelp("copy").join("\n")).not.toContain("Examples:");
+  });
+
+  it("should leave out the program name in help if there is none", () => {
+    const nc = new NixClap({ ...noOutputExit }).init2({
+      examples: [{ cmd: "$0 --help" }],
+      epilog: "Try $0 --help"
+    });
+    expect(nc.makeHelp().slice(-5)).toEqual(["", "Examples:", "   --help", "", "Try  --help"]);
+  });
+
+  it("should verify examples that still parse", () => {
+    expect(makeNc().verifyExamples()).toEqual([]);
+  });
+
+  it("should report examples that no longer parse", () => {
+    let executed = false;
+    const nc = new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      examples: [{ cmd: "$0 build --fast" }, { cmd: "build" }],
+      subCommands: {
+        build: {
+          exec: () => (executed = true),
+          subCommands: {
+            add: {
+              args: "<name>",
+              exec: noop,
+              examples: [{ cmd: "myapp build add", desc: "missing name" }]
+            }
+          }
+        }
+      }
+    });
+    const failures = nc.verifyExamples();
+    expect(executed).toBe(false);
+    expect(failures.map(f => [f.cmdPath, f.argv, f.errors.map(e => e.message)])).toEqual([
+      [[], ["build", "--fast"], ["Encountered unknown CLI option 'fast'."]],
+      [["build", "add"], ["build", "add"], ["Not enough arguments for command 'add'"]]
+    ]);
+    expect(failures[1].example.desc).toBe("missing name");
+  });
+
+  it("should verify examples without env or validators", () => {
+    const nc = new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      options: {
+        port: { args: "< number>", env: "MYAPP_EXAMPLE_PORT" },
+        name: { args: "< string>", validate: async () => false }
+      },
+      examples: [{ cmd: "$0 --name x" }]
+    });
+    process.env.MYAPP_EXAMPLE_PORT = "abc";
+    try {
+      expect(nc.verifyExamples()).toEqual([]);
+      expect(nc.parse2(["--name", "x"]).errorNodes.length).toBe(2);
+    } finally {
+      delete process.env.MYAPP_EXAMPLE_PORT;
+    }
+  });
+
+  it("should throw if not initialized", () => {
+    expect(() => new NixClap({ ...noOutputExit }).verifyExamples()).toThrow(
+      "CLI not initialized. Call init() or init2() first."
+    );
+  });
+});
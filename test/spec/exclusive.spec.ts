@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("exclusive options", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+  let saveEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    saveEnv = process.env;
+    process.env = { ...saveEnv };
+  });
+
+  afterEach(() => {
+    process.env = saveEnv;
+  });
+
+  const makeNc = () =>
+    new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      options: {
+        json: { conflicts: ["table"] },
+        table: { conflicts: ["json"], argDefault: "true" },
+        quiet: { alias: "q" },
+        force: { conflicts: ["stdin"] }
+      },
+      subCommands: {
+        fetch: {
+          exec: noop,
+          options: {
+            file: { args: "< string>" },
+            url: { args: "< string>", env: "MYAPP_URL" },
+            stdin: {},
+            verbose: { conflicts: ["quiet"] }
+          },
+          exclusiveGroups: [{ options: ["file", "url", "stdin"], required: true }]
+        },
+        show: {
+          exec: noop,
+          options: { short: {}, long: {} },
+          exclusiveGroups: [{ options: ["short", "long"] }]
+        },
+        sync: {
+          exec: noop,
+          options: { full: {}, delta: { argDefault: "true" } },
+          exclusiveGroups: [{ options: ["full", "delta"], required: true }]
+        }
+      }
+    });
+
+  const errorsOf = (argv: string[]) =>
+    makeNc()
+      .parse(argv)
+      .errorNodes.map(n => ({ node: n.name, errors: n.errors.map(e => e.message) }));
+
+  it("should accept options that don't conflict", () => {
+    expect(errorsOf(["--json", "show", "--short"])).toEqual([]);
+    expect(errorsOf(["fetch", "--url", "x"])).toEqual([]);
+    expect(errorsOf(["show"])).toEqual([]);
+  });
+
+  it("should report conflicting options once on the command that declared them", () => {
+    expect(errorsOf(["--json", "--table", "show"])).toEqual([
+      { node: "myapp", errors: ["Option --json can't be used with --table"] }
+    ]);
+    expect(errorsOf(["-q", "fetch", "--stdin", "--verbose"])).toEqual([
+      { node: "fetch", errors: ["Option --verbose can't be used with --quiet"] }
+    ]);
+  });
+
+  it("should report conflicts declared by parent options with sub command options", () => {
+    expect(errorsOf(["--force", "fetch", "--stdin"])).toEqual([
+      { node: "fetch", errors: ["Option --force can't be used with --stdin"] }
+    ]);
+    expect(errorsOf(["--force", "fetch", "--file", "a"])).toEqual([]);
+  });
+
+  it("should not count defaults as conflicting", () => {
+    const parsed = makeNc().parse(["--json", "show"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts.table).toBe(true);
+    expect(parsed.command.jsonMeta.source.table).toBe("default");
+  });
+
+  it("should report more than one option of an exclusive group", () => {
+    expect(errorsOf(["fetch", "--file", "a", "--url", "b", "--stdin"])).toEqual([
+      {
+        node: "fetch",
+        errors: [
+          "Only one of --file, --url, --stdin can be specified, but got --file, --url, --stdin"
+        ]
+      }
+    ]);
+    expect(errorsOf(["show", "--short", "--long"])).toEqual([
+      {
+        node: "show",
+        errors: ["Only one of --short, --long can be specified, but got --short, --long"]
+      }
+    ]);
+  });
+
+  it("should require one option of a required exclusive group", () => {
+    expect(errorsOf(["fetch"])).toEqual([
+      { node: "fetch", errors: ["One of --file, --url, --stdin is required"] }
+    ]);
+  });
+
+  it("should fulfill a required group with defaults without conflicting", () => {
+    expect(errorsOf(["sync"])).toEqual([]);
+    expect(errorsOf(["sync", "--full"])).toEqual([]);
+  });
+
+  it("should fulfill a required group with env without conflicting", () => {
+    process.env.MYAPP_URL = "http://x";
+    expect(errorsOf(["fetch"])).toEqual([]);
+    expect(errorsOf(["fetch", "--file", "a"])).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { HelpModel } from "../../src/help-model.ts";
+
+describe("help model and renderers", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) => {
+    const outputs: string[] = [];
+    const nc = new NixClap({
+      name: "myapp",
+      helpZebra: false,
+      output: s => outputs.push(s),
+      exit: noop,
+      ...config
+    }).init2({
+      desc: "My app",
+      options: {
+        verbose: { alias: "v", desc: "more logs" },
+        level: { args: "<n number>", argDefault: "2", min: 1, env: "MYAPP_LEVEL" }
+      },
+      epilog: "Docs for $0",
+      subCommands: {
+        build: {
+          alias: "b",
+          args: "[target]",
+          desc: "Build it ",
+          exec: noop,
+          options: { minify: { group: "Output" } },
+          examples: [{ cmd: "$0 build --minify", desc: "minified" }]
+        }
+      }
+    });
+    return { nc, outputs };
+  };
+
+  it("should make the help model of the root command", () => {
+    const { nc } = makeNc();
+    const model = nc.makeHelpModel();
+    expect(model.program).toBe("myapp");
+    expect(model.cmdPath).toEqual([]);
+    expect(model.usage).toEqual(["myapp <command>"]);
+    expect(model.desc).toBe("My app");
+    expect(model.commands).toEqual([
+      {
+        name: "build",
+        usage: "build [target]",
+        desc: "Build it",
+        aliases: ["b"],
+        tags: []
+      }
+    ]);
+    expect(model.groups.map(g => g.title)).toEqual(["Options"]);
+    expect(model.groups[0].options[1]).toEqual({
+      name: "level",
+      usage: "--level",
+      desc: undefined,
+      type: "number",
+      default: "2",
+      env: "MYAPP_LEVEL",
+      tags: ["[min: 1]"]
+    });
+    expect(model.epilog).toBe("Docs for myapp");
+  });
+
+  it("should make the help model of a sub command by alias", () => {
+    const { nc } = makeNc();
+    const model = nc.makeHelpModel("b");
+    expect(model.cmdPath).toEqual(["b"]);
+    expect(model.aliasOf).toBe("build");
+    expect(model.groups.map(g => g.title)).toEqual(["Options", "Output", "Global Options"]);
+    expect(model.examples).toEqual([{ cmd: "myapp build --minify", desc: "minified" }]);
+    expect(model.epilog).toBe(undefined);
+    expect(() => nc.makeHelpModel(["build", "x"])).toThrow("Unknown command: x");
+    expect(() => new NixClap().makeHelpModel()).toThrow("CLI not initialized");
+  });
+
+  it("should render help with json or a custom renderer", () => {
+    const { nc } = makeNc({
+      helpRenderers: { short: (m: HelpModel) => m.commands.map(c => c.name) }
+    });
+    expect(JSON.parse(nc.makeHelp("build", false, "json").join("\n"))).toEqual(
+      nc.makeHelpModel("build")
+    );
+    expect(nc.makeHelp(undefined, false, "short")).toEqual(["build"]);
+    expect(nc.makeHelp(undefined, false, m => [m.program])).toEqual(["myapp"]);
+    expect(nc.makeHelp(undefined, false, "xml")).toEqual(["Unknown help format: xml"]);
+  });
+
+  it("should render the error of an unknown command with the renderer", () => {
+    const { nc } = makeNc();
+    expect(nc.makeHelp(["build", "x"])).toEqual(["Unknown command: x"]);
+    expect(JSON.parse(nc.makeHelp(["build", "x"], false, "json").join("\n"))).toMatchObject({
+      program: "myapp",
+      cmdPath: ["build", "x"],
+      commands: [],
+      error: "Unknown command: x"
+    });
+  });
+
+  it("should show help with --help=<format>", () => {
+    const { nc, outputs } = makeNc();
+    nc.parse(["--help=json"]);
+    expect(JSON.parse(outputs[0]).cmdPath).toEqual([]);
+
+    outputs.length = 0;
+    nc.parse(["--help", "json", "build"]);
+    expect(JSON.parse(outputs[0]).cmdPath).toEqual(["build"]);
+
+    outputs.length = 0;
+    nc.parse(["build", "--help=json"]);
+    expect(JSON.parse(outputs[0]).cmdPath).toEqual(["build"]);
+
+    outputs.length = 0;
+    nc.parse(["build", "--help"]);
+    expect(outputs[0]).toContain("Usage: myapp build");
+  });
+
+  it("should prefer a command to a help format with the same name", () => {
+    const outputs: string[] = [];
+    const nc = new NixClap({ name: "myapp", output: s => outputs.push(s), exit: noop }).init2({
+      subCommands: { json: { desc: "json tools", exec: noop } }
+    });
+    nc.parse(["--help", "json"]);
+    expect(outputs[0]).toContain("json tools");
+  });
+
+  it("should replace the default text help with a custom renderer", () => {
+    const { nc, outputs } = makeNc({
+      helpRenderers: { text: (m: HelpModel) => [`${m.program}: ${m.desc}`] }
+    });
+    nc.parse(["--help"]);
+    expect(outputs[0]).toBe("myapp: My app\n");
+  });
+
+  it("should render the help of options", () => {
+    const { nc } = makeNc();
+    expect(nc._rootCommand.options.makeHelp()).toEqual([
+      "  --verbose, -v   more logs",
+      '  --level                    [number] [min: 1] [default: "2"] [env: MYAPP_LEVEL]',
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+    ]);
+    expect(nc._rootCommand.options.findLongestOptionHelpText()).toBe("--help, -?, -h".length);
+  });
+});
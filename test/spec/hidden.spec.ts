@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { UnknownOptionError } from "../../src/base.ts";
+
+describe("hidden options and commands", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) => {
+    const outputs: string[] = [];
+    const nc = new NixClap({
+      name: "myapp",
+      helpZebra: false,
+      completion: true,
+      output: s => outputs.push(s),
+      exit: noop,
+      ...config
+    }).init2({
+      options: {
+        verbose: { alias: "v" },
+        "debug-dump": { hidden: true, args: "<file string>" }
+      },
+      subCommands: {
+        build: {
+          exec: noop,
+          options: { minify: {}, "trace-internals": { hidden: true } },
+          subCommands: { inner: { exec: noop, hidden: true } }
+        },
+        "self-test": { alias: "st", hidden: true, exec: noop, desc: "internal checks" }
+      }
+    });
+    return { nc, outputs };
+  };
+
+  it("should leave hidden options and commands out of help", () => {
+    const { nc } = makeNc();
+    const help = nc.makeHelp().join("\n");
+    expect(help).toContain("--verbose");
+    expect(help).toContain("  build");
+    expect(help).not.toContain("debug-dump");
+    expect(help).not.toContain("self-test");
+
+    const buildHelp = nc.makeHelp("build").join("\n");
+    expect(buildHelp).toContain("--minify");
+    expect(buildHelp).toContain("Global Options:");
+    expect(buildHelp).not.toContain("trace-internals");
+    expect(buildHelp).not.toContain("debug-dump");
+    expect(buildHelp).not.toContain("Commands:");
+
+    expect(nc.makeHelp("self-test").join("\n")).toContain("internal checks");
+  });
+
+  it("should show hidden options and commands with showHidden", () => {
+    const { nc } = makeNc();
+    const help = nc.makeHelp(undefined, true).join("\n");
+    expect(help).toContain("--debug-dump");
+    expect(help).toContain("self-test");
+    const buildHelp = nc.makeHelp("build", true).join("\n");
+    expect(buildHelp).toContain("--trace-internals");
+    expect(buildHelp).toContain("Commands:\n  build inner");
+  });
+
+  it("should still parse hidden options and commands", () => {
+    const { nc } = makeNc();
+    const parsed = nc.parse(["--debug-dump", "x.json", "st"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts["debug-dump"]).toBe("x.json");
+    expect(parsed.command.subCmdNodes["self-test"]).toBeDefined();
+    expect(nc.parse(["build", "--trace-internals", "inner"]).errorNodes).toEqual([]);
+  });
+
+  it("should not suggest hidden options and commands for typos", () => {
+    const { nc } = makeNc();
+    const errors = nc
+      .parse(["--debug-dmp", "self-tst", "--trace-internal"])
+      .errorNodes.flatMap(n => n.errors as UnknownOptionError[]);
+    expect(errors.map(e => e.suggestions)).toEqual([[], [], []]);
+    const [err] = nc.parse(["build", "--trace-intrnals"]).errorNodes[0].errors;
+    expect((err as UnknownOptionError).suggestions).toEqual([]);
+  });
+
+  it("should only match hidden options and commands exactly with abbreviations", () => {
+    const nc = new NixClap({
+      name: "myapp",
+      allowAbbreviation: true,
+      output: noop,
+      exit: noop
+    }).init2({
+      options: {
+        "debug-internal": { hidden: true },
+        "debug-level": { args: "<n number>" }
+      },
+      subCommands: {
+        "self-test": { alias: "self-check", hidden: true, exec: noop },
+        "self-update": { exec: noop }
+      }
+    });
+    const parsed = nc.parse(["--debug", "1", "self"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts["debug-level"]).toBe(1);
+    expect(parsed.command.subCmdNodes["self-update"]).toBeDefined();
+
+    const [err] = nc.parse(["--debug-int"]).errorNodes[0].errors;
+    expect(err).toBeInstanceOf(UnknownOptionError);
+    expect(err.message).not.toContain("debug-internal");
+    const exact = nc.parse(["--debug-internal", "self-check"]);
+    expect(exact.errorNodes).toEqual([]);
+    expect(exact.command.subCmdNodes["self-test"]).toBeDefined();
+  });
+
+  it("should leave hidden options and commands out of completion", async () => {
+    const { nc } = makeNc();
+    expect(await nc.complete(["--"])).not.toContain("--debug-dump");
+    expect(await nc.complete(["build", "--t"])).toEqual([]);
+    expect(await nc.complete(["s"])).toEqual([]);
+    expect(await nc.complete(["b"])).toEqual(["build"]);
+    expect(await nc.complete(["build", ""])).toEqual([]);
+
+    const bash = nc.makeCompletion("bash");
+    expect(bash).not.toContain("self-test");
+    expect(bash).not.toContain("debug-dump");
+    expect(bash).not.toContain("inner");
+  });
+
+  it("should leave hidden options and commands out of generated docs", () => {
+    const { nc } = makeNc();
+    const man = nc.makeManPage(undefined, { date: "2024-01-01" });
+    expect(man).not.toContain("debug\\-dump");
+    expect(man).not.toContain("self\\-test");
+    expect(man).not.toContain("inner");
+    expect(Object.keys(nc.makeManPages())).toEqual([
+      "myapp.1",
+      "myapp-build.1",
+      "myapp-completion.1"
+    ]);
+    expect(nc.makeManPages({ date: "2024-01-01" })["myapp-build.1"]).not.toContain(".SH COMMANDS");
+
+    const docs = nc.makeMarkdownDocs();
+    expect(docs).not.toContain("debug-dump");
+    expect(docs).not.toContain("self-test");
+    expect(docs).not.toContain("trace-internals");
+    expect(docs).not.toContain("inner");
+  });
+
+  it("should show help with hidden items for help-all option", () => {
+    const { nc, outputs } = makeNc({ helpAll: true });
+    expect(nc.makeHelp().join("\n")).toMatch(
+      /--help-all +Show help, including hidden options and commands/
+    );
+    const parsed = nc.parse(["--help-all"]);
+    expect(parsed.helpAll).toBe(true);
+    expect(outputs.join("")).toContain("--debug-dump");
+    expect(outputs.join("")).toContain("self-test");
+
+    outputs.length = 0;
+    nc.parse(["--help-all", "build"]);
+    expect(outputs.join("")).toContain("Usage: myapp build");
+    expect(outputs.join("")).toContain("--trace-internals");
+
+    outputs.length = 0;
+    nc.parse(["build", "inner", "--help-all"]);
+    expect(outputs.join("")).toContain("Usage: myapp inner");
+  });
+
+  it("should use custom name for help-all option and not override existing option", () => {
+    const { nc, outputs } = makeNc({ helpAll: "help-hidden" });
+    nc.parse(["--help-hidden"]);
+    expect(outputs.join("")).toContain("--debug-dump");
+    const props = nc.toJSONSchema().properties;
+    expect(props["help-hidden"]).toBe(undefined);
+    expect(props["debug-dump"]).toBeDefined();
+
+    const nc2 = new NixClap({ helpAll: true, output: noop, exit: noop }).init2({
+      options: { "help-all": { desc: "mine" } }
+    });
+    expect(nc2.parse(["--help-all"]).helpAll).toBe(undefined);
+  });
+});
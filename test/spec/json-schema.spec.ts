@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("toJSONSchema", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  const makeNc = () =>
+    new NixClap({ name: "myapp", version: "1.0.0", completion: true, ...noOutputExit }).init2({
+      desc: "my app",
+      options: {
+        verbose: { alias: "v", counting: 3, desc: "more logs" },
+        debug: { desc: () => "debug mode", argDefault: "true" },
+        host: { alias: ["o", "O"], args: "<host string>", argDefault: "localhost", required: true },
+        port: { args: "< int>", min: 1, max: 65535 },
+        ratio: { args: "< number>", integer: true, min: 0, argDefault: "5" },
+        scale: { args: "< float>", max: 1 },
+        mode: { args: "<mode string:dev|prod>" },
+        level: { args: "< number>", choices: ["1", "2"] },
+        color: { args: "< boolean>", argDefault: "false" },
+        files: { args: "<files string..>", argDefault: ["a", "b"] },
+        pair: { args: "<x number> <y string>", argDefault: ["1", "z"] },
+        tags: { args: "<name string> <tags string..1,5>" },
+        custom: { args: "< json>", customTypes: { json: JSON.parse } },
+        trace: { counting: Infinity }
+      },
+      subCommands: {
+        build: {
+          alias: "b",
+          desc: "build it",
+          exec: noop,
+          options: { minify: { alias: "m" } },
+          subCommands: { "a/b~c": { alias: "abc", allowUnknownOption: true, exec: noop } }
+        }
+      }
+    });
+
+  it("should generate schema for the root command and options", () => {
+    const schema = makeNc().toJSONSchema();
+    expect(schema.$schema).toBe("http://json-schema.org/draft-07/schema#");
+    expect(schema.title).toBe("myapp");
+    expect(schema.type).toBe("object");
+    expect(schema.description).toBe("my app");
+    expect(schema.required).toEqual(["host"]);
+    expect(schema.additionalProperties).toBe(false);
+    expect(schema.properties.$schema).toEqual({ type: "string" });
+    expect(schema.properties).toMatchObject({
+      verbose: { type: "integer", minimum: 0, maximum: 3, description: "more logs" },
+      debug: { type: "boolean", description: "debug mode", default: true },
+      host: { type: "string", default: "localhost" },
+      port: { type: "integer", minimum: 1, maximum: 65535 },
+      ratio: { type: "integer", minimum: 0, default: 5 },
+      scale: { type: "number", maximum: 1 },
+      mode: { type: "string", enum: ["dev", "prod"] },
+      level: { type: "number", enum: [1, 2] },
+      color: { type: "boolean", default: false },
+      files: { type: "array", items: { type: "string" }, default: ["a", "b"] },
+      pair: {
+        type: "array",
+        items: [{ type: "number" }, { type: "string" }],
+        additionalItems: false,
+        minItems: 2,
+        maxItems: 2,
+        default: [1, "z"]
+      },
+      tags: {
+        type: "array",
+        items: [{ type: "string" }],
+        additionalItems: { type: "string" },
+        minItems: 2,
+        maxItems: 6
+      },
+      custom: {},
+      trace: { type: "integer", minimum: 0 }
+    });
+    expect(schema.properties.trace.maximum).toBe(undefined);
+    expect(schema.properties.files.minItems).toBe(undefined);
+    expect(schema.properties.files.maxItems).toBe(undefined);
+  });
+
+  it("should add aliases that ref the options and commands", () => {
+    const props = makeNc().toJSONSchema().properties;
+    expect(props.v).toEqual({ $ref: "#/properties/verbose" });
+    expect(props.o).toEqual({ $ref: "#/properties/host" });
+    expect(props.O).toEqual({ $ref: "#/properties/host" });
+    expect(props.b).toEqual({ $ref: "#/properties/build" });
+    const build = props.build.properties;
+    expect(build.m).toEqual({ $ref: "#/properties/build/properties/minify" });
+    expect(build.abc).toEqual({ $ref: "#/properties/build/properties/a~1b~0c" });
+  });
+
+  it("should generate nested schema for sub commands", () => {
+    const build = makeNc().toJSONSchema().properties.build;
+    expect(build).toMatchObject({
+      type: "object",
+      description: "build it",
+      properties: { minify: { type: "boolean" } },
+      additionalProperties: false
+    });
+    expect(build.required).toBe(undefined);
+    const sub = build.properties["a/b~c"];
+    expect(sub.description).toBe(undefined);
+    expect(sub.additionalProperties).toBe(true);
+    expect(Object.keys(sub.properties)).toEqual([]);
+  });
+
+  it("should leave out built-in options and commands", () => {
+    const nc = new NixClap({
+      name: "myapp",
+      version: "1.0.0",
+      completion: "comp",
+      configFile: true,
+      ...noOutputExit
+    }).init2({
+      options: { verbose: {} },
+      subCommands: { build: { exec: noop } }
+    });
+    const schema = nc.toJSONSchema();
+    expect(Object.keys(schema.properties)).toEqual(["verbose", "build", "$schema"]);
+    expect(Object.keys(schema.properties.build.properties)).toEqual([]);
+  });
+
+  it("should keep user defined help option and completion command", () => {
+    const nc = new NixClap({ name: "myapp", help: false, completion: true, ...noOutputExit }).init2(
+      {
+        options: { help: { desc: "my help" } },
+        subCommands: { completion: { desc: "mine", exec: noop } }
+      }
+    );
+    const props = nc.toJSONSchema().properties;
+    expect(props.help.description).toBe("my help");
+    expect(props.completion.description).toBe("mine");
+  });
+
+  it("should throw if not initialized", () => {
+    expect(() => new NixClap({ ...noOutputExit }).toJSONSchema()).toThrow(
+      "CLI not initialized. Call init() or init2() first."
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("man page", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+  const date = "2024-01-02";
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", version: "1.2.0", ...noOutputExit, ...config }).init2({
+      desc: () => "Build and ship\n\nShips the app to the world.",
+      args: "[target string]",
+      examples: [{ cmd: "$0 --port 80 build -m", desc: "build on port 80" }, { cmd: ".hidden" }],
+      options: {
+        port: { alias: "p", args: "<port int>", min: 1, argDefault: "8080", desc: "port to use" },
+        "log-level": { args: "<level string:info|warn>", env: true },
+        tags: { args: "<tags string..>", argDefault: ["a", "b"] },
+        quiet: {}
+      },
+      subCommands: {
+        build: {
+          alias: ["b", "bld"],
+          desc: "Build it",
+          exec: noop,
+          options: { minify: { alias: "m", desc: "minify\\output" } }
+        },
+        remote: {
+          subCommands: {
+            add: { alias: "a", args: "<name> [count int]", max: 3, exec: noop }
+          }
+        }
+      }
+    });
+
+  it("should generate the page for the root command with all sub commands", () => {
+    const page = makeNc({ envPrefix: "MYAPP" }).makeManPage(undefined, { date });
+    expect(page).toBe(
+      [
+        `.TH "MYAPP" "1" "2024\\-01\\-02" "myapp 1.2.0" "User Commands"`,
+        ".SH NAME",
+        "myapp \\- Build and ship",
+        ".SH SYNOPSIS",
+        "\\fBmyapp\\fR [target string] [\\fIoptions\\fR]",
+        ".br",
+        "\\fBmyapp\\fR \\fI<command>\\fR [\\fIcommand\\-args\\fR] [\\fIoptions\\fR]",
+        ".SH DESCRIPTION",
+        "Build and ship",
+        ".PP",
+        "Ships the app to the world.",
+        ".SH OPTIONS",
+        ".TP",
+        "\\fB\\-\\-port\\fR, \\fB\\-p\\fR \\fIint\\fR",
+        "port to use",
+        ".br",
+        `[min: 1] [default: "8080"]`,
+        ".TP",
+        "\\fB\\-\\-log\\-level\\fR \\fIstring\\fR",
+        `[choices: "info", "warn"] [env: MYAPP_LOG_LEVEL]`,
+        ".TP",
+        "\\fB\\-\\-tags\\fR \\fIstring ..\\fR",
+        `[default: ["a","b"]]`,
+        ".TP",
+        "\\fB\\-\\-quiet\\fR",
+        ".TP",
+        "\\fB\\-\\-version\\fR, \\fB\\-V\\fR, \\fB\\-v\\fR",
+        "Show version number",
+        ".TP",
+        "\\fB\\-\\-help\\fR, \\fB\\-?\\fR, \\fB\\-h\\fR \\fIstring ..\\fR",
+        "Show help. Add command path to show its help",
+        ".SH COMMANDS",
+        ".TP",
+        "\\fBbuild\\fR",
+        "Build it",
+        ".br",
+        "[aliases: b bld]",
+        ".RS",
+        ".PP",
+        "Options:",
+        ".TP",
+        "\\fB\\-\\-minify\\fR, \\fB\\-m\\fR",
+        "minify\\eoutput",
+        ".TP",
+        "\\fB\\-\\-help\\fR, \\fB\\-?\\fR, \\fB\\-h\\fR \\fIstring ..\\fR",
+        "Show help. Add command path to show its help",
+        ".RE",
+        ".TP",
+        "\\fBremote\\fR",
+        ".RS",
+        ".PP",
+        "Options:",
+        ".TP",
+        "\\fB\\-\\-help\\fR, \\fB\\-?\\fR, \\fB\\-h\\fR \\fIstring ..\\fR",
+        "Show help. Add command path to show its help",
+        ".RE",
+        ".TP",
+        "\\fBremote add\\fR <name> [count int]",
+        "[aliases: a] [max: 3]",
+        ".RS",
+        ".PP",
+        "Options:",
+        ".TP",
+        "\\fB\\-\\-help\\fR, \\fB\\-?\\fR, \\fB\\-h\\fR \\fIstring ..\\fR",
+        "Show help. Add command path to show its help",
+        ".RE",
+        ".SH EXAMPLES",
+        ".TP",
+        "\\fBmyapp \\-\\-port 80 build \\-m\\fR",
+        "build on port 80",
+        ".TP",
+        "\\fB\\&.hidden\\fR",
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("should generate the page for a sub command by its path and aliases", () => {
+    const nc = makeNc({ help: false });
+    const page = nc.makeManPage("b", { date, section: 8, source: "myapp", manual: "Tools" });
+    expect(page).toBe(
+      [
+        `.TH "MYAPP\\-BUILD" "8" "2024\\-01\\-02" "myapp" "Tools"`,
+        ".SH NAME",
+        "myapp\\-build \\- Build it",
+        ".SH SYNOPSIS",
+        "\\fBmyapp build\\fR [\\fIoptions\\fR]",
+        ".SH DESCRIPTION",
+        "Build it",
+        ".PP",
+        "Aliases: b, bld",
+        ".SH OPTIONS",
+        ".TP",
+        "\\fB\\-\\-minify\\fR, \\fB\\-m\\fR",
+        "minify\\eoutput",
+        ""
+      ].join("\n")
+    );
+
+    const add = nc.makeManPage(["remote", "add"], { date });
+    expect(add).toContain("\n.SH NAME\nmyapp\\-remote\\-add\n.SH SYNOPSIS\n");
+    expect(add).toContain("\\fBmyapp remote add\\fR <name> [count int] [\\fIoptions\\fR]\n");
+    expect(add).toMatch(/\n.SH DESCRIPTION\nAliases: a\n$/);
+    expect(add).not.toContain(".SH OPTIONS");
+
+    const remote = nc.makeManPage("remote", { date });
+    expect(remote).not.toContain(".SH DESCRIPTION");
+  });
+
+  it("should generate a page for each sub command git-style", () => {
+    const pages = makeNc({ help: false, version: undefined }).makeManPages({ date });
+    expect(Object.keys(pages)).toEqual([
+      "myapp.1",
+      "myapp-build.1",
+      "myapp-remote.1",
+      "myapp-remote-add.1"
+    ]);
+    expect(pages["myapp.1"]).toContain(`.TH "MYAPP" "1" "2024\\-01\\-02" "myapp" "User Commands"`);
+    expect(pages["myapp.1"]).toContain(
+      [
+        ".SH COMMANDS",
+        ".TP",
+        "\\fBmyapp\\-build\\fR(1)",
+        "Build it",
+        ".br",
+        "[aliases: b bld]",
+        ".TP",
+        "\\fBmyapp\\-remote\\fR(1)",
+        ".SH EXAMPLES"
+      ].join("\n")
+    );
+    expect(pages["myapp.1"]).toContain(
+      "\n.SH SEE ALSO\n\\fBmyapp\\-build\\fR(1), \\fBmyapp\\-remote\\fR(1)\n"
+    );
+    expect(pages["myapp-remote.1"]).toContain(
+      [
+        ".SH SYNOPSIS",
+        "\\fBmyapp remote\\fR \\fI<command>\\fR [\\fIcommand\\-args\\fR] [\\fIoptions\\fR]",
+        ".SH COMMANDS",
+        ".TP",
+        "\\fBmyapp\\-remote\\-add\\fR(1)",
+        "[aliases: a] [max: 3]",
+        ".SH SEE ALSO",
+        "\\fBmyapp\\fR(1), \\fBmyapp\\-remote\\-add\\fR(1)",
+        ""
+      ].join("\n")
+    );
+    expect(pages["myapp-remote-add.1"]).toContain("\n.SH SEE ALSO\n\\fBmyapp\\-remote\\fR(1)\n");
+  });
+
+  it("should default date to today", () => {
+    const page = makeNc().makeManPage();
+    const today = new Date().toISOString().slice(0, 10).replace(/-/g, "\\-");
+    expect(page.split("\n")[0]).toBe(`.TH "MYAPP" "1" "${today}" "myapp 1.2.0" "User Commands"`);
+  });
+
+  it("should use default program name", () => {
+    const nc = new NixClap({ ...noOutputExit }).init2({ subCommands: { build: {} } });
+    expect(nc.makeManPage("build", { date })).toContain(`.TH "PROGRAM\\-BUILD" "1"`);
+    expect(Object.keys(nc.makeManPages())).toEqual(["program.1", "program-build.1"]);
+  });
+
+  it("should throw for unknown command or if not initialized", () => {
+    expect(() => makeNc().makeManPage(["remote", "rm"])).toThrow("Unknown command: rm");
+    expect(() => new NixClap({ ...noOutputExit }).makeManPage()).toThrow(
+      "CLI not initialized. Call init() or init2() first."
+    );
+    expect(() => new NixClap({ ...noOutputExit }).makeManPages()).toThrow(
+      "CLI not initialized. Call init() or init2() first."
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("map option", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", helpZebra: false, output: noop, exit: noop, ...config }).init2({
+      options: {
+        define: { alias: "D", map: true, desc: "define a variable" },
+        header: { alias: "H", map: { separator: ":", duplicates: "error" } },
+        limit: { args: "<n number>", map: true, min: 0 }
+      },
+      subCommands: { build: { exec: noop } }
+    });
+
+  it("should collect key and value pairs into an object", () => {
+    const { command, errorNodes } = makeNc().parse([
+      "--define",
+      "A=1",
+      "-D",
+      "B = x=y",
+      "--define.C=3",
+      "--define.A",
+      "4",
+      "-H",
+      "Accept: text/html",
+      "--limit",
+      "cpu=2.5",
+      "build"
+    ]);
+    expect(errorNodes).toEqual([]);
+    expect(command.opts.define).toEqual({ A: "4", B: "x=y", C: "3" });
+    expect(command.opts.header).toEqual({ Accept: "text/html" });
+    expect(command.opts.limit).toEqual({ cpu: 2.5 });
+    expect(command.jsonMeta.verbatim.define).toEqual([
+      ["--define", "A=1"],
+      ["-D", "B = x=y"],
+      ["--define.C=3"],
+      ["--define.A", "4"]
+    ]);
+  });
+
+  it("should report invalid entries, values and duplicate keys", () => {
+    const messages = (argv: string[]) =>
+      makeNc()
+        .parse(argv.concat("build"))
+        .errorNodes.map(n => n.error.message);
+    expect(messages(["--define", "A"])).toEqual([
+      "Invalid value 'A' for option 'define' - expected key=value"
+    ]);
+    expect(messages(["--define", "=1"])).toEqual([
+      "Invalid value '=1' for option 'define' - expected key=value"
+    ]);
+    expect(messages(["--define", " =1"])).toEqual([
+      "Invalid value ' =1' for option 'define' - expected key=value"
+    ]);
+    expect(messages(["--define.=x"])).toEqual(["Encountered unknown CLI option 'define.'."]);
+    expect(messages(["--define.", "x"])[0]).toBe("Encountered unknown CLI option 'define.'.");
+    expect(messages(["-H", "A: 1", "-H", "B: 2", "-H", "A: 3"])).toEqual([
+      "Duplicate key 'A' for option 'header'"
+    ]);
+    expect(messages(["--limit.cpu=-1"])).toEqual([
+      "Invalid value '-1' for option 'limit' - expected a number >= 0"
+    ]);
+  });
+
+  it("should only match dotted names of map options", () => {
+    const nc = new NixClap({ output: noop, exit: noop }).init2({
+      options: { "a.b": {}, flag: {} },
+      subCommands: { build: { exec: noop } }
+    });
+    expect(nc.parse(["--a.b", "build"]).command.opts["a.b"]).toBe(true);
+    expect(nc.parse(["--flag.x", "build"]).errorNodes[0].error.message).toBe(
+      "Encountered unknown CLI option 'flag.x'."
+    );
+  });
+
+  it("should take an object from config", () => {
+    const parsed = makeNc({ skipExec: true }).parse(["build"]);
+    parsed.command.applyConfig({ define: { A: 1, B: "two" }, limit: { mem: 512 } });
+    expect(parsed.command.opts.define).toEqual({ A: "1", B: "two" });
+    expect(parsed.command.opts.limit).toEqual({ mem: 512 });
+  });
+
+  it("should show the map in help and JSON Schema", () => {
+    const nc = makeNc();
+    const help = nc.makeHelp();
+    expect(help.find(l => l.startsWith("  --define"))).toMatch(
+      /define a variable +\[key=value \.\.\]$/
+    );
+    expect(help.find(l => l.startsWith("  --header"))).toMatch(/\[key:value \.\.\]$/);
+    expect(help.find(l => l.startsWith("  --limit"))).toMatch(/\[key=number \.\.\] \[min: 0\]$/);
+    expect(nc.toJSONSchema().properties.limit).toEqual({
+      type: "object",
+      additionalProperties: { type: "number", minimum: 0 }
+    });
+  });
+
+  it("should fail init if a map option has more than one arg", () => {
+    expect(() =>
+      new NixClap().init2({ options: { env: { args: "<k string> <v string>", map: true } } })
+    ).toThrow("Map option env must have one required arg for the values");
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("markdown docs", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", envPrefix: "MYAPP", ...noOutputExit, ...config }).init2({
+      desc: () => "Build and ship",
+      args: "[target string:web|api] [files..]",
+      argDefault: ["web"],
+      options: {
+        port: { alias: "p", args: "<port int>", min: 1, argDefault: "8080", desc: "port | to use" },
+        "log-level": { args: "<level string:info|warn>", env: true, desc: "log\nlevel" },
+        verbose: { counting: 3 },
+        quiet: {}
+      },
+      subCommands: {
+        build: {
+          alias: ["b", "bld"],
+          desc: "Build it\nfor real",
+          exec: noop,
+          options: { minify: { alias: "m" } }
+        },
+        remote: { subCommands: { add: { args: "<name> [ int]", exec: noop } } }
+      }
+    });
+
+  it("should render a section for each command in the tree", () => {
+    const docs = makeNc({ help: false }).makeMarkdownDocs();
+    expect(docs).toBe(
+      [
+        `<a id="myapp"></a>`,
+        "",
+        "## myapp",
+        "",
+        "Build and ship",
+        "",
+        "**Usage:**",
+        "",
+        "```",
+        "myapp [target string:web|api] [files..] [options]",
+        "myapp <command> [command-args] [options]",
+        "```",
+        "",
+        "**Arguments:**",
+        "",
+        "| Argument | Type | Required | Default | Choices |",
+        "| --- | --- | --- | --- | --- |",
+        "| `target` | `string` | no | `web` | `web`, `api` |",
+        "| `files` | `string ..` | no |  |  |",
+        "",
+        "**Options:**",
+        "",
+        "| Option | Aliases | Type | Default | Description |",
+        "| --- | --- | --- | --- | --- |",
+        '| `--port` | `-p` | `int` | `"8080"` | port \\| to use [min: 1] |',
+        '| `--log-level` |  | `string` |  | log<br>level [choices: "info", "warn"] [env: MYAPP_LOG_LEVEL] |',
+        "| `--verbose` |  | `count` |  |  |",
+        "| `--quiet` |  | `boolean` |  |  |",
+        "",
+        "**Commands:**",
+        "",
+        "- [`myapp build`](#myapp-build) - Build it",
+        "- [`myapp remote`](#myapp-remote)",
+        "",
+        `<a id="myapp-build"></a>`,
+        "",
+        "## myapp build",
+        "",
+        "Build it\nfor real",
+        "",
+        "Aliases: `b`, `bld`",
+        "",
+        "**Usage:**",
+        "",
+        "```",
+        "myapp build [options]",
+        "```",
+        "",
+        "**Options:**",
+        "",
+        "| Option | Aliases | Type | Default | Description |",
+        "| --- | --- | --- | --- | --- |",
+        "| `--minify` | `-m` | `boolean` |  |  |",
+        "",
+        `<a id="myapp-remote"></a>`,
+        "",
+        "## myapp remote",
+        "",
+        "**Usage:**",
+        "",
+        "```",
+        "myapp remote <command> [command-args] [options]",
+        "```",
+        "",
+        "**Commands:**",
+        "",
+        "- [`myapp remote add`](#myapp-remote-add)",
+        "",
+        `<a id="myapp-remote-add"></a>`,
+        "",
+        "## myapp remote add",
+        "",
+        "**Usage:**",
+        "",
+        "```",
+        "myapp remote add <name> [ int] [options]",
+        "```",
+        "",
+        "**Arguments:**",
+        "",
+        "| Argument | Type | Required | Default | Choices |",
+        "| --- | --- | --- | --- | --- |",
+        "| `name` | `string` | yes |  |  |",
+        "| `1` | `int` | no |  |  |",
+        ""
+      ].join("\n")
+    );
+  });
+
+  it("should include built-in options and use heading level", () => {
+    const docs = new NixClap({ version: "1.0.0", ...noOutputExit })
+      .init2({ subCommands: { "do it": { exec: noop } } })
+      .makeMarkdownDocs({ headingLevel: 3 });
+    expect(docs).toContain(`<a id="program"></a>\n\n### program\n`);
+    expect(docs).toContain("| `--version` | `-V`, `-v` | `boolean` |  | Show version number |");
+    expect(docs).toContain("- [`program do it`](#program-do-it)");
+    expect(docs).toContain(`<a id="program-do-it"></a>\n\n### program do it\n`);
+  });
+
+  it("should not have ANSI codes from help zebra", () => {
+    expect(makeNc({ helpZebra: true }).makeMarkdownDocs()).not.toContain("\x1b");
+  });
+
+  it("should throw if not initialized", () => {
+    expect(() => new NixClap({ ...noOutputExit }).makeMarkdownDocs()).toThrow(
+      "CLI not initialized. Call init() or init2() first."
+    );
+  });
+});
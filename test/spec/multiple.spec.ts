@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("multiple", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", output: noop, exit: noop, ...config }).init2({
+      options: {
+        tag: { alias: "t", args: "<tag string>", multiple: true },
+        port: { args: "< number>", multiple: true, argDefault: "80", min: 1 },
+        "log-file": { args: "<file string>" },
+        define: { args: "<key string> <value string>", multiple: true },
+        debug: { multiple: true, deprecatedAliases: { d: {} }, alias: "d" }
+      },
+      subCommands: { build: { exec: noop } }
+    });
+
+  it("should collect the values of all occurrences in order", () => {
+    const { command } = makeNc().parse([
+      "--tag",
+      "a",
+      "-t=b",
+      "build",
+      "--tag",
+      "c",
+      "--define",
+      "x",
+      "1",
+      "--define",
+      "y",
+      "2",
+      "--debug",
+      "--no-debug"
+    ]);
+    expect(command.opts.tag).toEqual(["a", "b", "c"]);
+    expect(command.opts.define).toEqual([
+      { 0: "x", 1: "1", key: "x", value: "1" },
+      { 0: "y", 1: "2", key: "y", value: "2" }
+    ]);
+    expect(command.opts.debug).toEqual([true, false]);
+    expect(command.jsonMeta.optsCount.tag).toBe(3);
+    expect(command.jsonMeta.source.tag).toBe("cli");
+    expect(command.jsonMeta.optsFull.tag).toEqual([
+      { 0: "a", tag: "a" },
+      { 0: "b", tag: "b" },
+      { 0: "c", tag: "c" }
+    ]);
+    expect(command.jsonMeta.verbatim.tag).toEqual([["--tag", "a"], ["-t=b"], ["--tag", "c"]]);
+  });
+
+  it("should use the default only when the option is not specified", () => {
+    expect(makeNc().parse(["build"]).command.opts.port).toEqual([80]);
+    expect(makeNc().parse(["--port", "8080", "build"]).command.opts.port).toEqual([8080]);
+    expect(makeNc().parse(["build"]).command.opts.tag).toBe(undefined);
+  });
+
+  it("should keep the last value of options without multiple", () => {
+    const { command } = makeNc().parse(["--log-file", "a", "--log-file", "b", "build"]);
+    expect(command.opts.logFile).toBe("b");
+    expect(command.jsonMeta.verbatim).toEqual({ port: [[""]] });
+  });
+
+  it("should report errors and deprecations of every occurrence", () => {
+    const outputs: string[] = [];
+    const nc = makeNc({ output: (s: string) => outputs.push(s) });
+    const parsed = nc.parse(["--port", "0", "--port", "8080", "-d", "--debug", "-d", "build"]);
+    expect(parsed.errorNodes.map(n => n.error.message)).toEqual([
+      "Invalid value '0' for option 'port' - expected a number >= 1"
+    ]);
+    expect(parsed.command.getDeprecations().map(n => n.alias)).toEqual(["d", "d"]);
+  });
+
+  it("should take an array from config as multiple occurrences", () => {
+    const nc = makeNc({ skipExec: true });
+    const parsed = nc.parse(["build"]);
+    parsed.command.applyConfig({ tag: ["x", "y"], "log-file": "z" });
+    expect(parsed.command.opts.tag).toEqual(["x", "y"]);
+    expect(parsed.command.opts["log-file"]).toBe("z");
+  });
+});
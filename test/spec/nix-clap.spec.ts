@@ -8,7 +8,7 @@
 */
 
 import { CommandExecFunc, CommandSpec, NixClap } from "../../src";
-import { defaultOutput, defaultExit, ParseResult } from "../../src/nix-clap";
+import { defaultOutput, defaultWarn, defaultExit, ParseResult } from "../../src/nix-clap";
 import { describe, it, expect, beforeEach } from "vitest";
 import { OptionSpec } from "../../src/option-base";
 import { CommandNode } from "../../src/command-node";
@@ -37,6 +37,7 @@ describe("nix-clap", () => {
 
   it("should provide default output and exit setup", () => {
     defaultOutput("\ntesting defaultOutput to stdout - you should see this\n");
+    defaultWarn("\ntesting defaultWarn to stderr - you should see this\n");
     const saveExitCode = process.exitCode;
     defaultExit(100);
     expect(process.exitCode).toBe(100);
@@ -2426,6 +2427,9 @@ Options:
   --blah          test blah
   --help, -?, -h  Show help. Add command path to show its help       [string ..]
 
+Global Options:
+  --foo                                                                 [string]
+
 `);
   });
 
@@ -2533,7 +2537,10 @@ Options:
       "Command 's' is alias for 'sum'",
       "",
       "Options:",
-      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --version, -V, -v  Show version number"
     ]);
     help = nc.makeHelp("sum");
     expect(help).to.deep.equal([
@@ -2543,7 +2550,10 @@ Options:
       "  Output sum of numbers",
       "",
       "Options:",
-      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --version, -V, -v  Show version number"
     ]);
     help = nc.makeHelp("sr");
     expect(help).to.deep.equal([
@@ -2555,7 +2565,10 @@ Options:
       "",
       `Options:`,
       "  --reverse, -r   Sort in descending order",
-      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --version, -V, -v  Show version number"
     ]);
     help = nc.makeHelp("sort");
     expect(help).to.deep.equal([
@@ -2566,7 +2579,10 @@ Options:
       "",
       "Options:",
       "  --reverse, -r   Sort in descending order",
-      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --version, -V, -v  Show version number"
     ]);
     help = nc.makeHelp("blah");
     expect(help).to.deep.equal(["Unknown command: blah"]);
@@ -2594,7 +2610,10 @@ Options:
       "",
       "",
       "Options:",
-      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --version, -V, -v  Show version number"
     ]);
     help = nc.makeHelp("blah");
     expect(help).to.deep.equal([
@@ -2603,7 +2622,10 @@ Options:
       "",
       "",
       "Options:",
-      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]"
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --version, -V, -v  Show version number"
     ]);
   });
 
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { setHelpZebra } from "../../src/xtil.ts";
+
+describe("numeric values", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  beforeEach(() => {
+    setHelpZebra(false);
+  });
+
+  const makeNc = () =>
+    new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      options: {
+        port: { args: "< number>", min: 1, max: 65535, integer: true },
+        ratio: { args: "< float>", min: 0, max: 1 },
+        count: { args: "< int>" },
+        sizes: { args: "<sizes integer..1,>", min: 0 },
+        name: { args: "< string>", min: 5 }
+      },
+      subCommands: {
+        scale: { args: "<replicas number> [ number]", max: 10, exec: noop },
+        list: { args: "[page number]", alias: "ls", exec: noop }
+      }
+    });
+
+  const messages = (argv: string[]) =>
+    makeNc()
+      .parse(argv)
+      .errorNodes.flatMap(n => n.errors.map(e => e.message));
+
+  it("should accept valid numbers", () => {
+    const parsed = makeNc().parse([
+      "--port",
+      "8080",
+      "--ratio",
+      "0.5",
+      "--count=-3",
+      "--sizes",
+      "1",
+      "2",
+      "-.",
+      "--name",
+      "abc",
+      "scale",
+      "3",
+      "1e1"
+    ]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.jsonMeta.opts).toMatchObject({
+      port: 8080,
+      ratio: 0.5,
+      count: -3,
+      sizes: [1, 2],
+      name: "abc"
+    });
+    expect(parsed.command.subCmdNodes.scale.jsonMeta.args).toMatchObject({ replicas: 3, 1: 10 });
+  });
+
+  it("should reject values that are not numbers", () => {
+    expect(messages(["--port", "abc", "--ratio=80x", "list"])).toEqual([
+      "Invalid value 'abc' for option 'port' - expected a number",
+      "Invalid value '80x' for option 'ratio' - expected a number"
+    ]);
+    expect(messages(["list", "two"])).toEqual([
+      "Invalid value 'two' for argument 'page' of command 'list' - expected a number"
+    ]);
+  });
+
+  it("should reject hex, binary and blank values", () => {
+    expect(messages(["--port", "0x10", "--ratio", "0b11", "--count", " ", "list"])).toEqual([
+      "Invalid value '0x10' for option 'port' - expected a number",
+      "Invalid value '0b11' for option 'ratio' - expected a number",
+      "Invalid value ' ' for option 'count' - expected a number"
+    ]);
+    expect(makeNc().parse(["--port", " 80 ", "list"]).command.opts.port).toBe(80);
+  });
+
+  it("should reject values that are not integers", () => {
+    expect(
+      messages(["--port", "80.5", "--count", "1.5", "--sizes", "1", "2.5", "-.", "ls"])
+    ).toEqual([
+      "Invalid value '80.5' for option 'port' - expected an integer",
+      "Invalid value '1.5' for option 'count' - expected an integer",
+      "Invalid value '2.5' for option 'sizes' - expected an integer"
+    ]);
+  });
+
+  it("should reject values out of range", () => {
+    expect(messages(["--port", "0", "--ratio", "1.5", "--sizes=-1", "-.", "ls"])).toEqual([
+      "Invalid value '0' for option 'port' - expected a number >= 1",
+      "Invalid value '1.5' for option 'ratio' - expected a number <= 1",
+      "Invalid value '-1' for option 'sizes' - expected a number >= 0"
+    ]);
+    expect(messages(["scale", "5", "11"])).toEqual([
+      "Invalid value '11' for argument of command 'scale' - expected a number <= 10"
+    ]);
+  });
+
+  it("should check numbers applied from config", () => {
+    const nc = makeNc();
+    const parsed = nc.parse(["ls"]);
+    nc.applyConfig({ port: 70000, ratio: 0.1 }, parsed);
+    const errors = parsed.command.getErrorNodes().flatMap(n => n.errors);
+    expect(errors.map(e => e.message)).toEqual([
+      "Invalid value '70000' for option 'port' - expected a number <= 65535"
+    ]);
+  });
+
+  it("should show constraints in help", () => {
+    const help = makeNc().makeHelp();
+    expect(help.find(l => l.includes("--port"))).toMatch(
+      /\[number\] \[integer\] \[min: 1\] \[max: 65535\]$/
+    );
+    expect(help.find(l => l.includes("--ratio"))).toMatch(/\[float\] \[min: 0\] \[max: 1\]$/);
+    expect(help.find(l => l.includes("--name"))).toMatch(/\[string\]$/);
+    expect(help.find(l => l.includes("scale <replicas number>"))).toMatch(/\[max: 10\]$/);
+    expect(help.find(l => l.includes("list [page number]"))).toMatch(/\[aliases: ls\]$/);
+  });
+});
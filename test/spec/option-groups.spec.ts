@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("option groups", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  const makeNc = (config = {}) =>
+    new NixClap({
+      name: "myapp",
+      help: false,
+      helpZebra: false,
+      allowDuplicateOption: true,
+      ...noOutputExit,
+      ...config
+    }).init2({
+      options: {
+        verbose: { desc: "more logs", group: "Output" },
+        host: { args: "<host string>", group: "Network", desc: "server host" },
+        "log-format": { args: "<fmt string>", group: "Output" },
+        debug: {},
+        port: { args: "<port number>", group: "Network" }
+      },
+      subCommands: {
+        remote: {
+          options: { "dry-run": {}, verbose: { counting: 2 } },
+          subCommands: {
+            add: { options: { force: { group: "Safety" } }, exec: noop }
+          }
+        }
+      }
+    });
+
+  it("should show a section for each group with its own alignment", () => {
+    expect(makeNc().makeHelp()).toEqual([
+      "",
+      "Usage: myapp <command>",
+      "",
+      "Commands:",
+      "  remote",
+      "",
+      "Options:",
+      "  --debug",
+      "",
+      "Output:",
+      "  --verbose     more logs",
+      "  --log-format                                                          [string]",
+      "",
+      "Network:",
+      "  --host  server host                                                   [string]",
+      "  --port                                                                [number]"
+    ]);
+  });
+
+  it("should show options of parent commands as global options", () => {
+    expect(makeNc().makeHelp(["remote", "add"]).slice(3)).toEqual([
+      "",
+      "Safety:",
+      "  --force",
+      "",
+      "Global Options:",
+      "  --dry-run",
+      "  --verbose",
+      "  --host        server host                                             [string]",
+      "  --log-format                                                          [string]",
+      "  --debug",
+      "  --port                                                                [number]"
+    ]);
+  });
+
+  it("should order sections by config", () => {
+    const nc = makeNc({ optionGroupOrder: ["Global Options", "Network", "Missing"] });
+    const titles = (help: string[]) => help.filter(l => l.endsWith(":"));
+    expect(titles(nc.makeHelp())).toEqual(["Commands:", "Network:", "Options:", "Output:"]);
+    expect(titles(nc.makeHelp("remote"))).toEqual(["Commands:", "Global Options:", "Options:"]);
+  });
+
+  it("should merge options in Global Options group with inherited ones", () => {
+    const nc = new NixClap({ name: "myapp", helpZebra: false, ...noOutputExit }).init2({
+      options: { quiet: { group: "Global Options" } },
+      subCommands: { build: { options: { mine: { group: "Global Options" } }, exec: noop } }
+    });
+    expect(nc.makeHelp().slice(-4)).toEqual([
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --quiet"
+    ]);
+    expect(nc.makeHelp("build").slice(-6)).toEqual([
+      "Options:",
+      "  --help, -?, -h  Show help. Add command path to show its help       [string ..]",
+      "",
+      "Global Options:",
+      "  --mine",
+      "  --quiet"
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import Fs from "fs";
+import Os from "os";
+import Path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { expandResponseFiles } from "../../src/response-file.ts";
+
+describe("response file", () => {
+  const noop = () => undefined;
+  let tmpDir: string;
+
+  const write = (name: string, lines: string[]) => {
+    Fs.writeFileSync(Path.join(tmpDir, name), lines.join("\n"));
+    return `@${Path.join(tmpDir, name)}`;
+  };
+
+  beforeEach(() => {
+    tmpDir = Fs.mkdtempSync(Path.join(Os.tmpdir(), "nix-clap-rsp-"));
+  });
+
+  afterEach(() => {
+    Fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const makeNc = (config = {}) => {
+    const outputs: string[] = [];
+    const nc = new NixClap({
+      name: "myapp",
+      responseFiles: true,
+      output: s => outputs.push(s),
+      exit: noop,
+      ...config
+    }).init2({
+      options: { level: { args: "<n number>" } },
+      subCommands: { build: { args: "[files..]", exec: noop } }
+    });
+    return { nc, outputs };
+  };
+
+  it("should expand response files recursively with their locations", () => {
+    write("more.txt", ["c.ts", "", "'d e.ts'"]);
+    write("args.txt", ["build --level 2", "a.ts  b.ts", "@more.txt"]);
+    expect(expandResponseFiles(["node", "myapp", "@args.txt", "x.ts"], 2, tmpDir)).toEqual({
+      argv: ["node", "myapp", "build", "--level", "2", "a.ts", "b.ts", "c.ts", "d e.ts", "x.ts"],
+      origins: [
+        undefined,
+        undefined,
+        "args.txt:1",
+        "args.txt:1",
+        "args.txt:1",
+        "args.txt:2",
+        "args.txt:2",
+        "more.txt:1",
+        "more.txt:3",
+        undefined
+      ],
+      indexes: [0, 1, 2, 2, 2, 2, 2, 2, 2, 3]
+    });
+  });
+
+  it("should parse args from response files", () => {
+    const files = write("files.txt", ["a.ts", "b.ts", "--", "@c.ts"]);
+    const { nc } = makeNc();
+    const parsed = nc.parse(["--level", "1", "build", files, "--", "@x"]);
+    expect(parsed.errorNodes).toEqual([]);
+    expect(parsed.command.subCmdNodes.build.args.files).toEqual(["a.ts", "b.ts"]);
+    expect(parsed._).toEqual(["@c.ts", "--", "@x"]);
+  });
+
+  it("should not expand response files unless enabled", () => {
+    const { nc } = makeNc({ responseFiles: undefined, skipExec: true });
+    const parsed = nc.parse(["build", "@files.txt"]);
+    expect(parsed.command.subCmdNodes.build.args.files).toEqual(["@files.txt"]);
+    expect(nc.parse(["build", "@"]).command.subCmdNodes.build.args.files).toEqual(["@"]);
+  });
+
+  it("should add the file and line to errors from args in response files", () => {
+    const file = write("args.txt", ["--level 1", "--bad", "--level", "x build"]);
+    const { nc, outputs } = makeNc();
+    const parsed = nc.parse([file]);
+    expect(parsed.errorNodes.flatMap(n => n.errors.map(e => e.message))).toEqual([
+      `Encountered unknown CLI option 'bad'. (at ${file.substring(1)}:2)`,
+      `Invalid value 'x' for option 'level' - expected a number (at ${file.substring(1)}:4)`
+    ]);
+    expect(outputs[0]).toContain(`(at ${file.substring(1)}:2)`);
+  });
+
+  it("should report missing files and cycles", () => {
+    const { nc, outputs } = makeNc();
+    const missing = Path.join(tmpDir, "missing.txt");
+    nc.parse(["build", `@${missing}`]);
+    expect(outputs[0]).toContain(`Error: Failed to read response file ${missing}: ENOENT`);
+
+    const a = Path.join(tmpDir, "a.txt");
+    write("b.txt", ["x", `@${a}`]);
+    write("a.txt", [`@${Path.join(tmpDir, "b.txt")}`]);
+    expect(() => expandResponseFiles([`@${a}`])).toThrow(
+      `Response file ${a} includes itself at ${Path.join(tmpDir, "b.txt")}:2`
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { UnknownCliArgError, UnknownOptionError } from "../../src/base.ts";
+
+describe("did you mean suggestions", () => {
+  const noop = () => undefined;
+
+  const makeNc = (config = {}) => {
+    const outputs: string[] = [];
+    const nc = new NixClap({
+      name: "myapp",
+      output: s => outputs.push(s),
+      exit: noop,
+      ...config
+    }).init2({
+      options: {
+        verbose: { alias: "v" },
+        "log-level": { args: "< string>" }
+      },
+      subCommands: {
+        build: {
+          alias: "b",
+          exec: noop,
+          options: { minify: {}, "out-dir": { args: "< string>" } }
+        },
+        bundle: { exec: noop },
+        remote: {
+          subCommands: {
+            add: { exec: noop },
+            remove: { alias: "rm", exec: noop }
+          }
+        }
+      }
+    });
+    return { nc, outputs };
+  };
+
+  it("should suggest close commands for unknown command", () => {
+    const { nc, outputs } = makeNc();
+    const parsed = nc.parse(["buidl"]);
+    const error = parsed.errorNodes[0].error as UnknownCliArgError;
+    expect(error).toBeInstanceOf(UnknownCliArgError);
+    expect(error.arg).toBe("buidl");
+    expect(error.suggestions).toEqual(["build", "bundle"]);
+    expect(outputs).toEqual([
+      "Error: Command 'myapp' requires a subcommand. Unknown: 'buidl'.\n",
+      "Did you mean build or bundle?\n",
+      "myapp --help for more info\n"
+    ]);
+  });
+
+  it("should suggest sub commands and aliases for command that requires one", () => {
+    const { nc } = makeNc();
+    const parsed = nc.parse(["remote", "rmove"]);
+    const error = parsed.errorNodes[0].error as UnknownCliArgError;
+    expect(error.message).toContain("requires a subcommand");
+    expect(error.suggestions).toEqual(["remove"]);
+
+    const error2 = nc.parse(["remote", "r"]).errorNodes[0].error as UnknownCliArgError;
+    expect(error2.suggestions).toEqual(["remove", "rm"]);
+  });
+
+  it("should suggest options visible through the parent chain", () => {
+    const { nc, outputs } = makeNc();
+    const parsed = nc.parse(["build", "--minfy", "--verbos"]);
+    const errors = parsed.errorNodes.flatMap(n => n.errors as UnknownOptionError[]);
+    expect(errors[0]).toBeInstanceOf(UnknownOptionError);
+    expect(errors[0].suggestions).toEqual(["minify"]);
+    expect(errors[1].suggestions).toEqual(["verbose"]);
+    expect(outputs.slice(0, 2)).toEqual([
+      "Error: Encountered unknown CLI option 'minfy'.\n",
+      "Did you mean --minify?\n"
+    ]);
+
+    const error = nc.parse(["--log-leve", "x"]).errorNodes[0].error as UnknownOptionError;
+    expect(error.suggestions).toEqual(["log-level"]);
+  });
+
+  it("should not suggest options of other commands", () => {
+    const { nc, outputs } = makeNc();
+    const parsed = nc.parse(["--minfy"]);
+    expect((parsed.errorNodes[0].error as UnknownOptionError).suggestions).toEqual([]);
+    expect(outputs).toEqual([
+      "Error: Encountered unknown CLI option 'minfy'.\n",
+      "myapp --help for more info\n"
+    ]);
+  });
+
+  it("should not suggest for other errors", () => {
+    const { nc, outputs } = makeNc();
+    nc.showError(new Error("oops"));
+    expect(outputs).toEqual(["Error: oops\n", "myapp --help for more info\n"]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { defaultTheme, detectColor, plainTheme } from "../../src/theme.ts";
+import { stripAnsi } from "../../src/strip-ansi.ts";
+
+describe("theme", () => {
+  const noop = () => undefined;
+  const savedEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+  });
+
+  const makeNc = (config = {}) => {
+    const outputs: string[] = [];
+    const nc = new NixClap({
+      name: "myapp",
+      theme: true,
+      helpZebra: false,
+      output: s => outputs.push(s),
+      exit: noop,
+      ...config
+    }).init2({
+      options: { level: { args: "<n number>", argDefault: "2", desc: "log level" } },
+      subCommands: { build: { desc: "build it", exec: noop } }
+    });
+    return { nc, outputs };
+  };
+
+  it("should detect color from TTY and environment", () => {
+    expect(detectColor({ isTTY: true }, {})).toBe(true);
+    expect(detectColor({ isTTY: false }, {})).toBe(false);
+    expect(detectColor({}, {})).toBe(false);
+    expect(detectColor({ isTTY: true }, { NO_COLOR: "1" })).toBe(false);
+    expect(detectColor({ isTTY: true }, { NO_COLOR: "" })).toBe(true);
+    expect(detectColor({ isTTY: false }, { FORCE_COLOR: "1" })).toBe(true);
+    expect(detectColor({ isTTY: false }, { FORCE_COLOR: "" })).toBe(true);
+    expect(detectColor({ isTTY: true }, { FORCE_COLOR: "0", NO_COLOR: "1" })).toBe(false);
+    expect(detectColor({ isTTY: true }, { FORCE_COLOR: "false" })).toBe(false);
+    expect(detectColor({ isTTY: false }, { FORCE_COLOR: "1", NO_COLOR: "1" })).toBe(true);
+  });
+
+  it("should style help with --color and keep the columns aligned", () => {
+    const { nc, outputs } = makeNc();
+    nc.parse(["--color", "--help"]);
+    const help = outputs[0];
+    expect(help).toContain(defaultTheme.heading("Usage:"));
+    expect(help).toContain(defaultTheme.heading("Commands:"));
+    expect(help).toContain(defaultTheme.command("build"));
+    expect(help).toContain(defaultTheme.option("--level"));
+    expect(help).toContain(defaultTheme.type("[number]"));
+    expect(help).toContain(defaultTheme.default('[default: "2"]'));
+
+    outputs.length = 0;
+    nc.parse(["--no-color", "--help"]);
+    expect(outputs[0]).toBe(stripAnsi(help));
+  });
+
+  it("should use colors from environment without --color", () => {
+    process.env.FORCE_COLOR = "1";
+    const { nc, outputs } = makeNc();
+    nc.parse(["--help"]);
+    expect(outputs[0]).toContain(defaultTheme.heading("Options:"));
+
+    outputs.length = 0;
+    nc.parse(["build", "--no-color", "--help"]);
+    expect(outputs[0]).not.toContain("\x1b[");
+
+    delete process.env.FORCE_COLOR;
+    process.env.NO_COLOR = "1";
+    expect(makeNc().nc.getTheme()).toBe(plainTheme);
+  });
+
+  it("should style errors", () => {
+    const { nc, outputs } = makeNc();
+    nc.parse(["--color", "--bad"]);
+    expect(outputs[0]).toBe(
+      `${defaultTheme.error("Error: Encountered unknown CLI option 'bad'.")}\n`
+    );
+
+    outputs.length = 0;
+    nc.parse(["--color"]);
+    expect(outputs).toContain(`\n${defaultTheme.error("Error: No command given")}\n`);
+  });
+
+  it("should replace styles of the default theme", () => {
+    const { nc } = makeNc({ theme: { heading: (s: string) => `*${s}*` } });
+    process.env.FORCE_COLOR = "1";
+    const theme = nc.getTheme();
+    expect(theme.heading("Options:")).toBe("*Options:*");
+    expect(theme.error).toBe(defaultTheme.error);
+  });
+
+  it("should not use colors or add --color without theme", () => {
+    process.env.FORCE_COLOR = "1";
+    const { nc } = makeNc({ theme: undefined });
+    expect(nc.getTheme()).toBe(plainTheme);
+    expect(nc.makeHelp().join("\n")).not.toContain("--color");
+  });
+
+  it("should not add --color if there's an option named color", () => {
+    const nc = new NixClap({ theme: true, exit: noop, output: noop }).init2({
+      options: { color: { args: "<name string>", desc: "paint color" } }
+    });
+    const help = nc.makeHelp().join("\n");
+    expect(help).toContain("paint color");
+    expect(help).not.toContain("--no-color");
+  });
+
+  it("should leave out --color from JSON Schema", () => {
+    const { nc } = makeNc();
+    expect(Object.keys(nc.toJSONSchema().properties)).toEqual(["level", "build", "$schema"]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+import { ArgumentValue, OptionValue } from "../../src/command-meta.ts";
+import {
+  defineCommand,
+  defineOptions,
+  InferArgs,
+  InferOptionValue,
+  InferOpts
+} from "../../src/typed-spec.ts";
+
+describe("typed spec", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  it("should infer args from args specifier", () => {
+    type Args = InferArgs<"<port number> <mode string:dev|prod> [ int] [files..]">;
+    expectTypeOf<Args["port"]>().toEqualTypeOf<number>();
+    expectTypeOf<Args[0]>().toEqualTypeOf<number>();
+    expectTypeOf<Args["mode"]>().toEqualTypeOf<"dev" | "prod">();
+    expectTypeOf<Args[2]>().toEqualTypeOf<number>();
+    expectTypeOf<Args["files"]>().toEqualTypeOf<string[]>();
+    type Args2 = InferArgs<"<a float> <b boolean> <c..1>">;
+    type Expected = { 0: number; 1: boolean; 2: string } & { a: number; b: boolean; c: string };
+    expectTypeOf<Args2>().toEqualTypeOf<Expected & Record<string, ArgumentValue>>();
+    expectTypeOf<InferArgs<string>>().toEqualTypeOf<Record<string, ArgumentValue>>();
+    type Args3 = InferArgs<"<mode:dev|prod> [tags:a|b..]">;
+    expectTypeOf<Args3["mode"]>().toEqualTypeOf<"dev" | "prod">();
+    expectTypeOf<Args3["tags"]>().toEqualTypeOf<("a" | "b")[] | undefined>();
+  });
+
+  it("should infer option values from option spec", () => {
+    expectTypeOf<InferOptionValue<{}>>().toEqualTypeOf<boolean>();
+    expectTypeOf<InferOptionValue<{ counting: 3 }>>().toEqualTypeOf<number>();
+    expectTypeOf<InferOptionValue<{ args: "< number>" }>>().toEqualTypeOf<number>();
+    expectTypeOf<InferOptionValue<{ args: "<tags string..1,>" }>>().toEqualTypeOf<string[]>();
+    expectTypeOf<InferOptionValue<{ args: "<x string> <y number>" }>>().toEqualTypeOf<
+      { 0: string; 1: number } & { x: string; y: number }
+    >();
+    expectTypeOf<InferOptionValue<{ args: "< number>"; multiple: true }>>().toEqualTypeOf<
+      number[]
+    >();
+    expectTypeOf<InferOptionValue<{ multiple: true }>>().toEqualTypeOf<boolean[]>();
+    expectTypeOf<InferOptionValue<{ map: true }>>().toEqualTypeOf<Record<string, string>>();
+    expectTypeOf<InferOptionValue<{ choices: ["a", "b"] }>>().toEqualTypeOf<string>();
+    expectTypeOf<InferOptionValue<{ args: "< number>"; map: { separator: ":" } }>>().toEqualTypeOf<
+      Record<string, number>
+    >();
+  });
+
+  it("should infer opts with camelCase names", () => {
+    const options = defineOptions({
+      port: { args: "<port number>", argDefault: "80", alias: ["p"] },
+      "log-level": { args: "< string:info|warn>" },
+      verbose: { counting: Infinity }
+    });
+    type Opts = InferOpts<typeof options>;
+    expectTypeOf<Opts["port"]>().toEqualTypeOf<number>();
+    expectTypeOf<Opts["log-level"]>().toEqualTypeOf<"info" | "warn">();
+    expectTypeOf<Opts["logLevel"]>().toEqualTypeOf<"info" | "warn">();
+    expectTypeOf<Opts["verbose"]>().toEqualTypeOf<number>();
+    expect(options.port.alias).toEqual(["p"]);
+  });
+
+  it("should type exec of commands from defineCommand", () => {
+    const seen: unknown[] = [];
+    const build = defineCommand({
+      alias: "b",
+      args: "<target string> [count number]",
+      options: { minify: {}, "out-dir": { args: "< string>" } },
+      exec: cmd => {
+        expectTypeOf(cmd.args.target).toEqualTypeOf<string>();
+        expectTypeOf(cmd.args.count).toEqualTypeOf<number>();
+        expectTypeOf(cmd.opts.minify).toEqualTypeOf<boolean>();
+        expectTypeOf(cmd.opts.outDir).toEqualTypeOf<string>();
+        seen.push(cmd.args.target, cmd.args.count, cmd.opts.minify, cmd.opts.outDir);
+      }
+    });
+
+    const nc = new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      options: { port: { args: "<port number>", argDefault: "80" } },
+      subCommands: { build }
+    });
+    const parsed = nc.parse(["b", "web", "3", "--minify", "--out-dir", "dist"]);
+    expect(seen).toEqual(["web", 3, true, "dist"]);
+    expectTypeOf(parsed.command.opts.port).toEqualTypeOf<number>();
+    expect(parsed.command.opts.port).toBe(80);
+  });
+
+  it("should infer types of root command from init2 spec declared as const", () => {
+    const nc = new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      args: "<files string..>",
+      options: { level: { args: "<level number>", alias: ["l"], choices: ["1", "2"] } },
+      exclusiveGroups: [{ options: ["level"] }]
+    } as const);
+    const parsed = nc.parse(["-l", "2", "a", "b"]);
+    expectTypeOf(parsed.command.args.files).toEqualTypeOf<string[]>();
+    expectTypeOf(parsed.command.jsonMeta.opts.level).toEqualTypeOf<number>();
+    expect(parsed.command.args.files).toEqual(["a", "b"]);
+    expect(parsed.command.jsonMeta.opts.level).toBe(2);
+
+    const nc2 = new NixClap({ name: "myapp", ...noOutputExit }).init2(
+      defineCommand({ args: "<n number>", options: { q: {} } })
+    );
+    expectTypeOf(nc2.parse(["1"]).command.args.n).toEqualTypeOf<number>();
+  });
+
+  it("should keep untyped results for untyped specs", () => {
+    const nc = new NixClap({ ...noOutputExit }).init2();
+    expectTypeOf(nc.parse([]).command.opts).toEqualTypeOf<Record<string, OptionValue>>();
+  });
+});
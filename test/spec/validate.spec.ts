@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { NixClap } from "../../src/nix-clap.ts";
+
+describe("validate", () => {
+  const noop = () => undefined;
+  const noOutputExit = { output: noop, exit: noop };
+
+  const makeNc = (config = {}) =>
+    new NixClap({ name: "myapp", ...noOutputExit, ...config }).init2({
+      options: {
+        port: {
+          args: "< number>",
+          argDefault: "8080",
+          validate: value => (value as number) !== 22 || "Port 22 is reserved"
+        },
+        mode: { args: "< string>", validate: value => value !== "bad" },
+        level: { args: "< number>", min: 1, validate: () => false }
+      },
+      subCommands: {
+        copy: {
+          args: "<src string> <dest string>",
+          validate: (args, ctx) => {
+            if (args.src === args.dest) {
+              throw new Error(`Can't copy ${args.src} to itself in ${ctx.name}`);
+            }
+            return true;
+          },
+          exec: noop
+        },
+        serve: {
+          options: {
+            host: {
+              args: "< string>",
+              validate: async (value, ctx) => {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                return value === ctx.opts.mode ? "Host can't be the same as mode" : undefined;
+              }
+            }
+          },
+          validate: async () => {
+            throw new Error("Server not available");
+          },
+          exec: noop
+        }
+      }
+    });
+
+  const messages = (parsed: { errorNodes?: { errors: Error[] }[] }) =>
+    parsed.errorNodes.flatMap(n => n.errors.map(e => e.message));
+
+  it("should accept values that pass validation", () => {
+    const parsed = makeNc().parse(["--mode", "dev", "copy", "a", "b"]);
+    expect(parsed.errorNodes).toEqual([]);
+  });
+
+  it("should validate default values after coercion", () => {
+    const seen: unknown[] = [];
+    const nc = new NixClap({ name: "myapp", ...noOutputExit }).init2({
+      options: {
+        port: { args: "< number>", argDefault: "8080", validate: v => void seen.push(v) },
+        host: { args: "< string>", validate: v => void seen.push(v) }
+      },
+      args: "[name string]",
+      validate: args => void seen.push(args.name)
+    });
+    nc.parse(["web"]);
+    expect(seen).toEqual([8080, "web"]);
+  });
+
+  it("should add rejections as errors on the owning node", () => {
+    const parsed = makeNc().parse(["--port", "22", "--mode", "bad", "copy", "a", "a"]);
+    expect(messages(parsed)).toEqual([
+      "Port 22 is reserved",
+      "Invalid value for option 'mode'",
+      "Can't copy a to itself in copy"
+    ]);
+    expect(parsed.errorNodes.map(n => n.name)).toEqual(["port", "mode", "copy"]);
+  });
+
+  it("should not validate values that already failed parsing", () => {
+    const parsed = makeNc().parse(["--level", "0", "copy", "a", "b"]);
+    expect(messages(parsed)).toEqual([
+      "Invalid value '0' for option 'level' - expected a number >= 1"
+    ]);
+  });
+
+  it("should await async validators with parseAsync before checking failures", async () => {
+    const failed: string[][] = [];
+    const nc = makeNc();
+    nc.removeDefaultHandlers("parse-fail");
+    nc.on("parse-fail", parsed => failed.push(messages(parsed)));
+    const parsed = await nc.parseAsync(["--mode", "x", "serve", "--host", "x"], 0);
+    expect(messages(parsed)).toEqual(["Server not available", "Host can't be the same as mode"]);
+    expect(failed).toEqual([messages(parsed)]);
+
+    const parsed2 = await makeNc().parseAsync(["copy", "a", "b"], 0);
+    expect(parsed2.errorNodes).toEqual([]);
+  });
+
+  it("should report async validators with sync parse", () => {
+    const parsed = makeNc().parse(["serve", "--host", "x"]);
+    expect(messages(parsed)).toEqual([
+      "Async validator of command 'serve' requires parseAsync",
+      "Async validator of option 'host' requires parseAsync"
+    ]);
+  });
+});
@@ -4,6 +4,7 @@ import {
   toBoolean,
   isBoolean,
   isNumber,
+  toNumber,
   fitLine,
   fitLines,
   camelCase,
@@ -12,7 +13,10 @@ import {
   padLeftFill,
   padLeft,
   resetZebraIndex,
-  nextZebraIndex
+  nextZebraIndex,
+  editDistance,
+  suggestNames,
+  splitCommandLine
 } from "../../src/xtil";
 
 describe("xtil", () => {
@@ -69,6 +73,15 @@ describe("xtil", () => {
     expect(isNumber("true")).toBe(false);
   });
 
+  it("toNumber should only convert decimal numbers", () => {
+    expect(toNumber(" -1.5e2 ")).toBe(-150);
+    expect(toNumber(".5")).toBe(0.5);
+    expect(toNumber("0x10")).toBeNaN();
+    expect(toNumber("0b11")).toBeNaN();
+    expect(toNumber(" ")).toBeNaN();
+    expect(toNumber("Infinity")).toBeNaN();
+  });
+
   it("fitLine should format lines correctly", () => {
     const strs = ["This", "is", "a", "test"];
     const margin = ">";
@@ -199,6 +212,26 @@ describe("xtil", () => {
   //   expect(camelCase("consecutive--hyphens")).toBe("consecutiveHyphens");
   // });
 
+  it("editDistance should count single character edits", () => {
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("abc", "")).toBe(3);
+    expect(editDistance("build", "build")).toBe(0);
+    expect(editDistance("biuld", "build")).toBe(1);
+    expect(editDistance("ab", "ba")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+
+  it("suggestNames should rank close candidates", () => {
+    const names = ["build", "bundle", "test", "bump", "b", "install"];
+    expect(suggestNames("bild", names)).toEqual(["build"]);
+    expect(suggestNames("bu", names)).toEqual(["build", "bump", "bundle"]);
+    expect(suggestNames("bu", names, 1)).toEqual(["build"]);
+    expect(suggestNames("tset", names)).toEqual(["test"]);
+    expect(suggestNames("x", names)).toEqual([]);
+    expect(suggestNames("build", names)).toEqual([]);
+    expect(suggestNames("instal", ["install", "install"])).toEqual(["install"]);
+  });
+
   it("padLeft should pad string with spaces on the left", () => {
     expect(padLeft("test", 10)).toBe("      test");
   });
@@ -259,4 +292,23 @@ describe("xtil", () => {
       expect(result[0]).toContain("[type]");
     });
   });
+
+  it("splitCommandLine should split words with quotes and escapes", () => {
+    expect(splitCommandLine("  $0 copy  a.txt\tb.txt ")).toEqual(["$0", "copy", "a.txt", "b.txt"]);
+    expect(splitCommandLine(`cp "my file.txt" 'it''s' "" x\\ y`)).toEqual([
+      "cp",
+      "my file.txt",
+      "its",
+      "",
+      "x y"
+    ]);
+    expect(splitCommandLine(`echo "a \\"b\\" c" 'd\\e' f\\`)).toEqual([
+      "echo",
+      `a "b" c`,
+      "d\\e",
+      "f\\"
+    ]);
+    expect(splitCommandLine(`\\-x`)).toEqual(["-x"]);
+    expect(splitCommandLine("")).toEqual([]);
+  });
 });